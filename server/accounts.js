@@ -0,0 +1,125 @@
+import { createWhatsAppClient } from './whatsapp-client.js';
+
+// Business phone numbers ("accounts"). Each one has its own Cloud API
+// credentials, and conversations are kept per number: the same customer
+// talking to two of our numbers has two threads.
+//
+// The number configured through WHATSAPP_PHONE_NUMBER_ID/WHATSAPP_ACCESS_TOKEN
+// is always registered and is the default for requests that don't name one.
+// Without it the default is the unconfigured 'default' number (demo mode).
+
+const ACCOUNTS_COLLECTION = 'accounts';
+
+export class AccountValidationError extends Error {
+  constructor(message) {
+    super(message);
+    this.name = 'AccountValidationError';
+  }
+}
+
+// Credentials never leave the server
+export const toPublicAccount = ({ _id, name, display_phone_number, access_token }) => ({
+  id: _id,
+  name,
+  display_phone_number: display_phone_number || null,
+  configured: Boolean(access_token)
+});
+
+export const createAccountRegistry = ({
+  getDb,
+  accountsStore = [],
+  envAccount = {},
+  clientOptions = {},
+  onChange = async () => { }
+}) => {
+  const defaultAccount = {
+    _id: envAccount.phoneNumberId || 'default',
+    name: envAccount.name || 'Default number',
+    display_phone_number: envAccount.displayPhoneNumber,
+    access_token: envAccount.accessToken
+  };
+  const clients = new Map();
+
+  const stored = async () => {
+    const db = getDb();
+    return db ? db.collection(ACCOUNTS_COLLECTION).find({}).toArray() : accountsStore;
+  };
+
+  // A stored account with the default number's id overrides the environment
+  const find = async (phoneNumberId = defaultAccount._id) => {
+    const accounts = await stored();
+    return accounts.find(account => account._id === phoneNumberId) ||
+      (phoneNumberId === defaultAccount._id ? defaultAccount : null);
+  };
+
+  const list = async () => {
+    const accounts = await stored();
+    const all = accounts.some(account => account._id === defaultAccount._id)
+      ? accounts
+      : [defaultAccount, ...accounts];
+    return all.map(toPublicAccount);
+  };
+
+  const register = async ({ phone_number_id, name, display_phone_number, access_token }) => {
+    if (!phone_number_id || !/^\w+$/.test(phone_number_id)) {
+      throw new AccountValidationError('phone_number_id is required');
+    }
+
+    const account = {
+      _id: phone_number_id,
+      name: name?.trim() || display_phone_number || phone_number_id,
+      display_phone_number,
+      access_token,
+      updated_at: new Date()
+    };
+
+    const db = getDb();
+    if (db) {
+      await db.collection(ACCOUNTS_COLLECTION).replaceOne({ _id: account._id }, account, { upsert: true });
+    } else {
+      const index = accountsStore.findIndex(a => a._id === account._id);
+      if (index === -1) {
+        accountsStore.push(account);
+      } else {
+        accountsStore[index] = account;
+      }
+      await onChange();
+    }
+
+    clients.delete(account._id);
+    return toPublicAccount(account);
+  };
+
+  const remove = async (phoneNumberId) => {
+    const db = getDb();
+    let removed;
+    if (db) {
+      const result = await db.collection(ACCOUNTS_COLLECTION).deleteOne({ _id: phoneNumberId });
+      removed = result.deletedCount > 0;
+    } else {
+      const index = accountsStore.findIndex(a => a._id === phoneNumberId);
+      removed = index !== -1 && Boolean(accountsStore.splice(index, 1));
+      if (removed) {
+        await onChange();
+      }
+    }
+
+    clients.delete(phoneNumberId);
+    return removed;
+  };
+
+  // Cloud API client for the number; unknown numbers get an unconfigured one
+  const clientFor = async (phoneNumberId = defaultAccount._id) => {
+    if (!clients.has(phoneNumberId)) {
+      const account = await find(phoneNumberId);
+      clients.set(phoneNumberId, createWhatsAppClient({
+        ...clientOptions,
+        accessToken: account?.access_token,
+        phoneNumberId: account ? account._id : null
+      }));
+    }
+    return clients.get(phoneNumberId);
+  };
+
+  return { defaultPhoneNumberId: defaultAccount._id, find, list, register, remove, clientFor };
+};
@@ -0,0 +1,173 @@
+import crypto from 'crypto';
+import { promisify } from 'util';
+
+// Agent accounts and the signed tokens they use for the REST API and the
+// Socket.IO handshake. Passwords are stored as scrypt hashes; tokens are
+// HS256 JWTs so any standard library can inspect them.
+
+const scrypt = promisify(crypto.scrypt);
+const AGENTS_COLLECTION = 'agents';
+const KEY_LENGTH = 64;
+
+export const TOKEN_TTL_SECONDS = 12 * 60 * 60;
+
+export class AgentValidationError extends Error {
+  constructor(message) {
+    super(message);
+    this.name = 'AgentValidationError';
+  }
+}
+
+export const hashPassword = async (password) => {
+  const salt = crypto.randomBytes(16).toString('hex');
+  const hash = await scrypt(password, salt, KEY_LENGTH);
+  return `scrypt$${salt}$${hash.toString('hex')}`;
+};
+
+export const verifyPassword = async (password, stored) => {
+  const [scheme, salt, expected] = stored?.split('$') || [];
+  if (scheme !== 'scrypt' || !salt || !expected) {
+    return false;
+  }
+
+  const hash = await scrypt(password, salt, KEY_LENGTH);
+  const expectedBuffer = Buffer.from(expected, 'hex');
+  return expectedBuffer.length === hash.length && crypto.timingSafeEqual(hash, expectedBuffer);
+};
+
+const base64url = (value) => Buffer.from(JSON.stringify(value)).toString('base64url');
+
+const sign = (data, secret) => crypto.createHmac('sha256', secret).update(data).digest('base64url');
+
+export const signToken = (payload, secret, ttlSeconds = TOKEN_TTL_SECONDS) => {
+  const now = Math.floor(Date.now() / 1000);
+  const data = `${base64url({ alg: 'HS256', typ: 'JWT' })}.${base64url({ ...payload, iat: now, exp: now + ttlSeconds })}`;
+  return `${data}.${sign(data, secret)}`;
+};
+
+// Resolves to the token's payload, or null when it is malformed, forged or
+// expired
+export const verifyToken = (token, secret) => {
+  const [header, payload, signature] = token?.split('.') || [];
+  if (!header || !payload || !signature) {
+    return null;
+  }
+
+  const expected = Buffer.from(sign(`${header}.${payload}`, secret));
+  const actual = Buffer.from(signature);
+  if (expected.length !== actual.length || !crypto.timingSafeEqual(expected, actual)) {
+    return null;
+  }
+
+  try {
+    const claims = JSON.parse(Buffer.from(payload, 'base64url').toString('utf8'));
+    return claims.exp > Date.now() / 1000 ? claims : null;
+  } catch {
+    return null;
+  }
+};
+
+// Only these agent fields ever leave the server
+export const toPublicAgent = ({ _id, email, name, role }) => ({ id: _id, email, name, role });
+
+export const createAgentStore = ({ getDb, agentsStore = [], onChange = async () => { } }) => {
+  const findOne = async (query) => {
+    const db = getDb();
+    if (db) {
+      return db.collection(AGENTS_COLLECTION).findOne(query);
+    }
+    return agentsStore.find(agent => Object.entries(query).every(([key, value]) => agent[key] === value)) || null;
+  };
+
+  const findById = (id) => findOne({ _id: id });
+
+  const findByEmail = (email) => findOne({ email: email?.trim().toLowerCase() });
+
+  const list = async () => {
+    const db = getDb();
+    const agents = db ? await db.collection(AGENTS_COLLECTION).find({}).toArray() : agentsStore;
+    return agents.map(toPublicAgent);
+  };
+
+  const create = async ({ email, name, password, role = 'agent' }) => {
+    const normalizedEmail = email?.trim().toLowerCase();
+    if (!normalizedEmail || !normalizedEmail.includes('@')) {
+      throw new AgentValidationError('A valid email is required');
+    }
+    if (!password || password.length < 8) {
+      throw new AgentValidationError('Password must be at least 8 characters');
+    }
+    if (await findByEmail(normalizedEmail)) {
+      throw new AgentValidationError(`An agent with email ${normalizedEmail} already exists`);
+    }
+
+    const agent = {
+      _id: `agent_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
+      email: normalizedEmail,
+      name: name?.trim() || normalizedEmail,
+      role,
+      password_hash: await hashPassword(password),
+      created_at: new Date()
+    };
+
+    const db = getDb();
+    if (db) {
+      await db.collection(AGENTS_COLLECTION).insertOne(agent);
+    } else {
+      agentsStore.push(agent);
+      await onChange();
+    }
+    return toPublicAgent(agent);
+  };
+
+  // Same answer and roughly the same time whether or not the email exists
+  const authenticate = async (email, password) => {
+    const agent = await findByEmail(email);
+    const valid = await verifyPassword(password || '', agent?.password_hash || 'scrypt$00$00');
+    return agent && valid ? toPublicAgent(agent) : null;
+  };
+
+  const count = async () => {
+    const db = getDb();
+    return db ? db.collection(AGENTS_COLLECTION).countDocuments() : agentsStore.length;
+  };
+
+  return { findById, findByEmail, list, create, authenticate, count };
+};
+
+const bearerToken = (header) => {
+  const [scheme, token] = header?.split(' ') || [];
+  return scheme === 'Bearer' ? token : null;
+};
+
+// Resolves the token's agent onto `req.agent`, or answers 401
+export const requireAgent = ({ secret, agentStore }) => async (req, res, next) => {
+  try {
+    const claims = verifyToken(bearerToken(req.get('authorization')), secret);
+    const agent = claims && await agentStore.findById(claims.sub);
+    if (!agent) {
+      return res.status(401).json({ error: 'Authentication required' });
+    }
+
+    req.agent = toPublicAgent(agent);
+    next();
+  } catch (error) {
+    next(error);
+  }
+};
+
+// Socket.IO middleware: the client sends its token as `auth.token`
+export const authenticateSocket = ({ secret, agentStore }) => async (socket, next) => {
+  try {
+    const claims = verifyToken(socket.handshake.auth?.token, secret);
+    const agent = claims && await agentStore.findById(claims.sub);
+    if (!agent) {
+      return next(new Error('Authentication required'));
+    }
+
+    socket.data.agent = toPublicAgent(agent);
+    next();
+  } catch (error) {
+    next(error);
+  }
+};
@@ -0,0 +1,66 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import { createAgentStore, hashPassword, signToken, verifyPassword, verifyToken } from './auth.js';
+
+const SECRET = 'test-secret';
+
+describe('signToken and verifyToken', () => {
+  it('round-trips the payload', () => {
+    const claims = verifyToken(signToken({ sub: 'agent_1' }, SECRET), SECRET);
+
+    assert.equal(claims.sub, 'agent_1');
+    assert.ok(claims.exp > claims.iat);
+  });
+
+  it('rejects a token whose payload was changed', () => {
+    const [header, , signature] = signToken({ sub: 'agent_1' }, SECRET).split('.');
+    const forged = Buffer.from(JSON.stringify({ sub: 'agent_2', exp: Date.now() / 1000 + 60 })).toString('base64url');
+
+    assert.equal(verifyToken(`${header}.${forged}.${signature}`, SECRET), null);
+  });
+
+  it('rejects an expired token', () => {
+    assert.equal(verifyToken(signToken({ sub: 'agent_1' }, SECRET, -1), SECRET), null);
+  });
+
+  it('rejects a token signed with another secret', () => {
+    assert.equal(verifyToken(signToken({ sub: 'agent_1' }, 'other-secret'), SECRET), null);
+  });
+
+  it('rejects malformed tokens', () => {
+    for (const token of [undefined, '', 'not-a-token', 'a.b']) {
+      assert.equal(verifyToken(token, SECRET), null);
+    }
+  });
+});
+
+describe('hashPassword and verifyPassword', () => {
+  it('accepts the password it hashed and nothing else', async () => {
+    const stored = await hashPassword('correct horse');
+
+    assert.match(stored, /^scrypt\$[0-9a-f]+\$[0-9a-f]+$/);
+    assert.equal(await verifyPassword('correct horse', stored), true);
+    assert.equal(await verifyPassword('wrong horse', stored), false);
+  });
+
+  it('salts every hash', async () => {
+    assert.notEqual(await hashPassword('correct horse'), await hashPassword('correct horse'));
+  });
+
+  it('rejects hashes in any other format', async () => {
+    for (const stored of [undefined, '', 'plain', 'bcrypt$salt$hash']) {
+      assert.equal(await verifyPassword('correct horse', stored), false);
+    }
+  });
+});
+
+describe('createAgentStore().authenticate', () => {
+  it('returns the public agent only for the right password', async () => {
+    const store = createAgentStore({ getDb: () => null });
+    const agent = await store.create({ email: ' Alice@Example.com ', name: 'Alice', password: 'correct horse' });
+
+    assert.deepEqual(await store.authenticate('alice@example.com', 'correct horse'), agent);
+    assert.equal(await store.authenticate('alice@example.com', 'wrong horse'), null);
+    assert.equal(await store.authenticate('bob@example.com', 'correct horse'), null);
+  });
+});
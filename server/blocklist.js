@@ -0,0 +1,84 @@
+// Customers the team has blocked, per business number. Messages from a
+// blocked number stay in the webhook journal but never reach the inbox, and
+// nothing can be sent to it. Unblocking doesn't bring those messages back on
+// its own; replaying their journal entries does.
+
+const BLOCKED_COLLECTION = 'blocked_contacts';
+
+export const toPublicBlock = ({ phone_number_id, wa_id, profile_name, blocked_by, blocked_at }) => ({
+  phone_number_id,
+  wa_id,
+  profile_name,
+  blocked_by,
+  blocked_at
+});
+
+export const createBlockList = ({ getDb, blockedStore = [], onChange = async () => { } }) => {
+  const keyOf = ({ phone_number_id, wa_id }) => `${phone_number_id}:${wa_id}`;
+
+  const find = async (conversation) => {
+    const db = getDb();
+    return db
+      ? db.collection(BLOCKED_COLLECTION).findOne({ _id: keyOf(conversation) })
+      : blockedStore.find(entry => entry._id === keyOf(conversation)) || null;
+  };
+
+  const isBlocked = async (conversation) => Boolean(await find(conversation));
+
+  // By name
+  const list = async (phone_number_id) => {
+    const db = getDb();
+    const entries = db
+      ? await db.collection(BLOCKED_COLLECTION).find({ phone_number_id }).toArray()
+      : blockedStore.filter(entry => entry.phone_number_id === phone_number_id);
+    return entries.sort((a, b) => a.profile_name.localeCompare(b.profile_name));
+  };
+
+  // The numbers among `waIds` that are blocked on `phone_number_id`, as a Set
+  const blockedAmong = async (phone_number_id, waIds) => {
+    const db = getDb();
+    const entries = db
+      ? await db.collection(BLOCKED_COLLECTION).find({ phone_number_id, wa_id: { $in: waIds } }).toArray()
+      : blockedStore.filter(entry => entry.phone_number_id === phone_number_id && waIds.includes(entry.wa_id));
+    return new Set(entries.map(entry => entry.wa_id));
+  };
+
+  // Blocking an already blocked number keeps the original entry
+  const block = async ({ phone_number_id, wa_id }, profile_name, agent) => {
+    const entry = {
+      _id: keyOf({ phone_number_id, wa_id }),
+      phone_number_id,
+      wa_id,
+      profile_name,
+      blocked_by: { id: agent.id, name: agent.name },
+      blocked_at: new Date()
+    };
+
+    const db = getDb();
+    if (db) {
+      await db.collection(BLOCKED_COLLECTION).updateOne({ _id: entry._id }, { $setOnInsert: entry }, { upsert: true });
+    } else if (!blockedStore.some(existing => existing._id === entry._id)) {
+      blockedStore.push(entry);
+      await onChange();
+    }
+    return find(entry);
+  };
+
+  // Resolves to false when the number wasn't blocked
+  const unblock = async (conversation) => {
+    const db = getDb();
+    if (db) {
+      const result = await db.collection(BLOCKED_COLLECTION).deleteOne({ _id: keyOf(conversation) });
+      return result.deletedCount > 0;
+    }
+    const index = blockedStore.findIndex(entry => entry._id === keyOf(conversation));
+    if (index === -1) {
+      return false;
+    }
+    blockedStore.splice(index, 1);
+    await onChange();
+    return true;
+  };
+
+  return { isBlocked, blockedAmong, list, block, unblock };
+};
@@ -0,0 +1,274 @@
+// Broadcast lists and campaigns. A broadcast list is a saved set of
+// recipients on one business number, typically uploaded as CSV. A campaign
+// sends one text or template message to every recipient on a list: each one
+// gets an individual message in their own conversation, tagged with
+// `campaign: { id, name }`, which goes through the outbound queue like any
+// other send. Campaign counts are worked out from those messages' statuses.
+
+const LISTS_COLLECTION = 'broadcast_lists';
+const CAMPAIGNS_COLLECTION = 'campaigns';
+
+export const MAX_RECIPIENTS = 10000;
+
+export class BroadcastValidationError extends Error {
+  constructor(message) {
+    super(message);
+    this.name = 'BroadcastValidationError';
+  }
+}
+
+// WhatsApp ids are the international number without `+` or separators
+const normalizeWaId = (value) => {
+  const digits = String(value ?? '').replace(/[\s+\-().]/g, '');
+  return /^\d{7,15}$/.test(digits) ? digits : null;
+};
+
+// Splits CSV text into rows of fields; quoted fields may contain commas,
+// newlines and doubled quotes
+const parseCsv = (text) => {
+  const rows = [];
+  let row = [];
+  let field = '';
+  let quoted = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    if (quoted) {
+      if (char === '"' && text[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === ',' || char === ';') {
+      row.push(field.trim());
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[i + 1] === '\n') i++;
+      row.push(field.trim());
+      rows.push(row);
+      row = [];
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+  row.push(field.trim());
+  rows.push(row);
+
+  return rows.filter(fields => fields.some(Boolean));
+};
+
+const PHONE_COLUMNS = ['wa_id', 'phone', 'phone_number', 'number', 'mobile'];
+const NAME_COLUMNS = ['profile_name', 'name'];
+
+// Reads `phone,name` rows. A header row naming the columns (e.g. `name,phone`)
+// is optional; without one the first column is the number and the second the
+// name. Rows without a valid number are skipped and reported by line.
+export const parseRecipientsCsv = (text) => {
+  const rows = parseCsv(String(text || ''));
+  const header = rows[0]?.map(column => column.toLowerCase());
+  const hasHeader = header && !normalizeWaId(header[0]) && header.some(column => PHONE_COLUMNS.includes(column));
+  const phoneColumn = hasHeader ? header.findIndex(column => PHONE_COLUMNS.includes(column)) : 0;
+  const nameColumn = hasHeader ? header.findIndex(column => NAME_COLUMNS.includes(column)) : 1;
+
+  const recipients = [];
+  const skipped = [];
+  rows.slice(hasHeader ? 1 : 0).forEach((fields, index) => {
+    const line = index + (hasHeader ? 2 : 1);
+    const wa_id = normalizeWaId(fields[phoneColumn]);
+    if (!wa_id) {
+      skipped.push({ line, reason: `Invalid phone number: ${fields[phoneColumn] || '(empty)'}` });
+      return;
+    }
+    recipients.push({ wa_id, profile_name: (nameColumn >= 0 && fields[nameColumn]) || wa_id });
+  });
+
+  return { recipients, skipped };
+};
+
+// Later duplicates of a number are dropped
+const normalizeRecipients = (recipients) => {
+  if (!Array.isArray(recipients) || recipients.length === 0) {
+    throw new BroadcastValidationError('A broadcast list needs at least one recipient');
+  }
+
+  const byWaId = new Map();
+  for (const recipient of recipients) {
+    const wa_id = normalizeWaId(recipient?.wa_id);
+    if (!wa_id) {
+      throw new BroadcastValidationError(`Invalid phone number: ${recipient?.wa_id}`);
+    }
+    if (!byWaId.has(wa_id)) {
+      byWaId.set(wa_id, { wa_id, profile_name: String(recipient.profile_name || wa_id).trim() });
+    }
+  }
+
+  if (byWaId.size > MAX_RECIPIENTS) {
+    throw new BroadcastValidationError(`A broadcast list can have at most ${MAX_RECIPIENTS} recipients`);
+  }
+  return [...byWaId.values()];
+};
+
+export const toPublicList = ({ _id, phone_number_id, name, recipients, created_by, created_at }) => ({
+  id: _id,
+  phone_number_id,
+  name,
+  recipients,
+  created_by,
+  created_at
+});
+
+export const toPublicCampaign = ({ _id, phone_number_id, name, list, message, created_by, created_at }, stats) => ({
+  id: _id,
+  phone_number_id,
+  name,
+  list,
+  message,
+  created_by,
+  created_at,
+  stats
+});
+
+// `statuses` counts the campaign's messages by their current status. A read
+// message was also delivered and sent, so those counts include it. `skipped`
+// recipients were blocked when the campaign started and got no message.
+export const toCampaignStats = (statuses, total, skipped = 0) => {
+  const count = (...names) => names.reduce((sum, name) => sum + (statuses[name] || 0), 0);
+  return {
+    total,
+    skipped,
+    pending: count('pending', 'retrying'),
+    sent: count('sent', 'delivered', 'read'),
+    delivered: count('delivered', 'read'),
+    read: count('read'),
+    failed: count('failed')
+  };
+};
+
+export const createBroadcastStore = ({ getDb, listsStore = [], campaignsStore = [], onChange = async () => { } }) => {
+  const collection = (name, store) => ({
+    insert: async (doc) => {
+      const db = getDb();
+      if (db) {
+        await db.collection(name).insertOne(doc);
+      } else {
+        store.push(doc);
+        await onChange();
+      }
+      return doc;
+    },
+
+    find: async (id) => {
+      const db = getDb();
+      return db ? db.collection(name).findOne({ _id: id }) : store.find(doc => doc._id === id) || null;
+    },
+
+    // Newest first
+    list: async (phone_number_id) => {
+      const db = getDb();
+      const docs = db
+        ? await db.collection(name).find({ phone_number_id }).toArray()
+        : store.filter(doc => doc.phone_number_id === phone_number_id);
+      return docs.sort((a, b) => b.created_at - a.created_at);
+    },
+
+    remove: async (id) => {
+      const db = getDb();
+      if (db) {
+        const result = await db.collection(name).deleteOne({ _id: id });
+        return result.deletedCount > 0;
+      }
+      const index = store.findIndex(doc => doc._id === id);
+      if (index === -1) {
+        return false;
+      }
+      store.splice(index, 1);
+      await onChange();
+      return true;
+    }
+  });
+
+  const listsCollection = collection(LISTS_COLLECTION, listsStore);
+  const campaignsCollection = collection(CAMPAIGNS_COLLECTION, campaignsStore);
+
+  const requireName = (name, what) => {
+    const trimmed = typeof name === 'string' ? name.trim() : '';
+    if (!trimmed) {
+      throw new BroadcastValidationError(`${what} name is required`);
+    }
+    return trimmed;
+  };
+
+  const lists = {
+    find: listsCollection.find,
+    list: listsCollection.list,
+    remove: listsCollection.remove,
+
+    create: ({ phone_number_id, name, recipients }, agent) => listsCollection.insert({
+      _id: `list_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
+      phone_number_id,
+      name: requireName(name, 'List'),
+      recipients: normalizeRecipients(recipients),
+      created_by: { id: agent.id, name: agent.name },
+      created_at: new Date()
+    })
+  };
+
+  // The list is copied onto the campaign, so editing or deleting the list
+  // later doesn't change what the campaign was sent to. `skipped` holds the
+  // recipients' numbers that are not sent to.
+  const campaigns = {
+    find: campaignsCollection.find,
+    list: campaignsCollection.list,
+
+    create: ({ name, list, message, skipped = [] }, agent) => campaignsCollection.insert({
+      _id: `campaign_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
+      phone_number_id: list.phone_number_id,
+      name: requireName(name ?? list.name, 'Campaign'),
+      list: { id: list._id, name: list.name, size: list.recipients.length },
+      message,
+      recipients: list.recipients,
+      skipped,
+      created_by: { id: agent.id, name: agent.name },
+      created_at: new Date()
+    })
+  };
+
+  return { lists, campaigns };
+};
+
+// Campaign counts for the sidebar, recomputed at most once per `intervalMs`
+// for each campaign while its status updates come in
+export const createCampaignProgress = ({ getRepository, findCampaign, emit, intervalMs = 1000 }) => {
+  const timers = new Map();
+
+  const stats = async (campaign) => toCampaignStats(
+    await getRepository().messages.countCampaignStatuses(campaign._id),
+    campaign.recipients.length,
+    campaign.skipped?.length || 0
+  );
+
+  const publish = async (campaignId) => {
+    timers.delete(campaignId);
+    const campaign = await findCampaign(campaignId);
+    if (!campaign) return;
+    emit('campaignUpdate', {
+      phone_number_id: campaign.phone_number_id,
+      campaign: toPublicCampaign(campaign, await stats(campaign))
+    });
+  };
+
+  const touch = (campaignId) => {
+    if (timers.has(campaignId)) return;
+    timers.set(campaignId, setTimeout(() => {
+      publish(campaignId).catch(error => console.error(`Error publishing campaign ${campaignId}:`, error));
+    }, intervalMs));
+  };
+
+  return { stats, touch };
+};
@@ -0,0 +1,171 @@
+import { encodeCursor, decodeCursor, parsePageSize } from './pagination.js';
+
+// Sidebar summaries: one row per contact with its latest message, unread
+// count and last activity time, most recently active first. Pages are cut
+// with the same opaque cursors as message history, keyed on
+// (last_activity, wa_id).
+//
+// Each conversation also has a team-inbox state and an assignee. Contacts
+// stored before assignment existed have neither and count as open and
+// unassigned.
+//
+// A contact row is one conversation: the customer `wa_id` on one of our
+// business numbers (`phone_number_id`). Lists are always for one number.
+
+export const CONVERSATION_STATES = ['open', 'pending', 'resolved'];
+const ACTIVE_STATES = ['open', 'pending'];
+
+export class ConversationError extends Error {
+  constructor(message) {
+    super(message);
+    this.name = 'ConversationError';
+  }
+}
+
+// Sidebar tabs. `assignee_id` null means unassigned, undefined means anyone.
+const VIEWS = {
+  mine: (agentId) => ({ states: ACTIVE_STATES, assignee_id: agentId }),
+  unassigned: () => ({ states: ACTIVE_STATES, assignee_id: null }),
+  all: () => ({ states: ACTIVE_STATES }),
+  resolved: () => ({ states: ['resolved'] })
+};
+
+export const toConversationUpdate = (contact) => ({
+  phone_number_id: contact.phone_number_id,
+  wa_id: contact.wa_id,
+  state: contact.state || 'open',
+  assignee: contact.assignee || null
+});
+
+const toSummary = (contact, lastMessage) => ({
+  wa_id: contact.wa_id,
+  profile_name: contact.profile_name,
+  unread_count: contact.unreadCount || 0,
+  last_message: lastMessage || null,
+  last_activity: lastMessage?.timestamp || 0,
+  ...toConversationUpdate(contact)
+});
+
+// Without a view every conversation on the number is listed
+export const parseConversationRequest = ({ before, limit, view }, agentId, phoneNumberId) => {
+  if (view && !VIEWS[view]) {
+    throw new ConversationError(`view must be one of ${Object.keys(VIEWS).join(', ')}`);
+  }
+
+  return {
+    cursor: before ? decodeCursor(before) : null,
+    limit: parsePageSize(limit),
+    filter: { ...(view && VIEWS[view](agentId)), phone_number_id: phoneNumberId }
+  };
+};
+
+// `null` in $in also matches contacts without a state, which count as open
+const filterQuery = ({ phone_number_id, states, assignee_id }) => ({
+  ...(phone_number_id && { phone_number_id }),
+  ...(states && { state: { $in: states.includes('open') ? [...states, null] : states } }),
+  ...(assignee_id !== undefined && { 'assignee.id': assignee_id })
+});
+
+const matchesFilter = (summary, { phone_number_id, states, assignee_id }) =>
+  (!phone_number_id || summary.phone_number_id === phone_number_id) &&
+  (!states || states.includes(summary.state)) &&
+  (assignee_id === undefined || (summary.assignee?.id ?? null) === assignee_id);
+
+const toConversationPage = (rows, { limit }) => {
+  const conversations = rows.slice(0, limit);
+  const last = conversations[conversations.length - 1];
+
+  return {
+    conversations,
+    before: last ? encodeCursor({ timestamp: last.last_activity, _id: last.wa_id }) : null,
+    has_more: rows.length > limit
+  };
+};
+
+// Reactions only decorate other messages, so they never count as the preview
+export const conversationPipeline = ({ cursor, limit, filter = {} }) => [
+  { $match: filterQuery(filter) },
+  {
+    $lookup: {
+      from: 'processed_messages',
+      let: { phone_number_id: '$phone_number_id', wa_id: '$wa_id' },
+      pipeline: [
+        {
+          $match: {
+            $expr: {
+              $and: [
+                { $eq: ['$phone_number_id', '$$phone_number_id'] },
+                { $eq: ['$wa_id', '$$wa_id'] }
+              ]
+            },
+            type: { $ne: 'reaction' }
+          }
+        },
+        { $sort: { timestamp: -1, _id: -1 } },
+        { $limit: 1 }
+      ],
+      as: 'last_messages'
+    }
+  },
+  {
+    $project: {
+      _id: 0,
+      phone_number_id: 1,
+      wa_id: 1,
+      profile_name: 1,
+      unread_count: { $ifNull: ['$unreadCount', 0] },
+      last_message: { $ifNull: [{ $arrayElemAt: ['$last_messages', 0] }, null] },
+      last_activity: { $ifNull: [{ $arrayElemAt: ['$last_messages.timestamp', 0] }, 0] },
+      state: { $ifNull: ['$state', 'open'] },
+      assignee: { $ifNull: ['$assignee', null] }
+    }
+  },
+  ...(cursor
+    ? [{
+      $match: {
+        $or: [
+          { last_activity: { $lt: cursor.timestamp } },
+          { last_activity: cursor.timestamp, wa_id: { $lt: cursor.id } }
+        ]
+      }
+    }]
+    : []),
+  { $sort: { last_activity: -1, wa_id: -1 } },
+  { $limit: limit + 1 }
+];
+
+export const listConversations = async (db, request) => {
+  const rows = await db.collection('contacts')
+    .aggregate(conversationPipeline(request))
+    .toArray();
+  return toConversationPage(rows, request);
+};
+
+// In-memory mirror of the pipeline above
+export const listConversationsInMemory = (contacts, messages, request) => {
+  const { cursor, limit, filter = {} } = request;
+  const latest = new Map();
+  const keyOf = ({ phone_number_id, wa_id }) => `${phone_number_id}:${wa_id}`;
+
+  for (const message of messages) {
+    if (message.type === 'reaction') continue;
+    const current = latest.get(keyOf(message));
+    if (!current || message.timestamp > current.timestamp ||
+      (message.timestamp === current.timestamp && String(message._id) > String(current._id))) {
+      latest.set(keyOf(message), message);
+    }
+  }
+
+  const byActivity = (a, b) => b.last_activity - a.last_activity || (a.wa_id < b.wa_id ? 1 : a.wa_id > b.wa_id ? -1 : 0);
+
+  const rows = contacts
+    .map(contact => toSummary(contact, latest.get(keyOf(contact))))
+    .filter(summary => matchesFilter(summary, filter))
+    .filter(summary => !cursor ||
+      summary.last_activity < cursor.timestamp ||
+      (summary.last_activity === cursor.timestamp && summary.wa_id < cursor.id))
+    .sort(byActivity)
+    .slice(0, limit + 1);
+
+  return toConversationPage(rows, request);
+};
@@ -0,0 +1,206 @@
+// Groups: named sets of customers on one business number that agents message
+// together. Business numbers can't post into WhatsApp groups, so a group
+// message is stored once in the group's own conversation (whose `wa_id` is
+// the group id) and sent to every member as a separate copy in the member's
+// conversation. Each copy is queued and tracked on its own, and the group
+// message keeps a `deliveries` entry per member.
+//
+// Groups are managed by agents. The group's `admins`, and agents with the
+// admin role, can rename it and change its members and admins.
+
+const GROUPS_COLLECTION = 'groups';
+
+export class GroupValidationError extends Error {
+  constructor(message) {
+    super(message);
+    this.name = 'GroupValidationError';
+  }
+}
+
+export class GroupPermissionError extends Error {
+  constructor(message) {
+    super(message);
+    this.name = 'GroupPermissionError';
+  }
+}
+
+export const isGroupId = (wa_id) => typeof wa_id === 'string' && wa_id.startsWith('group_');
+
+export const groupConversation = (group) => ({ phone_number_id: group.phone_number_id, wa_id: group._id });
+
+export const toPublicGroup = ({ _id, phone_number_id, name, members, admins, created_by, created_at }) => ({
+  id: _id,
+  phone_number_id,
+  name,
+  members,
+  admins,
+  created_by,
+  created_at
+});
+
+// Sent to the number's sidebar whenever a group changes
+export const toGroupUpdate = (group) => ({
+  ...groupConversation(group),
+  group: toPublicGroup(group)
+});
+
+export const canManageGroup = (group, agent) =>
+  agent.role === 'admin' || group.admins.some(admin => admin.id === agent.id);
+
+// The member copies of a group message, and the group message's delivery
+// entry for each member. Members in `blocked` get no copy; their entry is
+// marked `skipped: 'blocked'` instead.
+export const fanOut = (message, group, blocked = new Set()) => {
+  const { _id, client_id, group_id, sender, ...fields } = message;
+  const copies = group.members.filter(member => !blocked.has(member.wa_id)).map(member => ({
+    ...fields,
+    _id: `msg_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
+    wa_id: member.wa_id,
+    to: member.wa_id,
+    group: { id: group._id, name: group.name, message_id: _id }
+  }));
+  const copyIds = new Map(copies.map(copy => [copy.wa_id, copy._id]));
+  const deliveries = group.members.map(member => ({
+    wa_id: member.wa_id,
+    profile_name: member.profile_name,
+    ...(blocked.has(member.wa_id)
+      ? { message_id: null, status: null, skipped: 'blocked' }
+      : { message_id: copyIds.get(member.wa_id), status: message.status || null })
+  }));
+
+  return { copies, deliveries };
+};
+
+export const createGroupStore = ({ getDb, getRepository, groupsStore = [], onChange = async () => { } }) => {
+  const save = async (group) => {
+    const db = getDb();
+    if (db) {
+      await db.collection(GROUPS_COLLECTION).replaceOne({ _id: group._id }, group, { upsert: true });
+    } else {
+      const index = groupsStore.findIndex(g => g._id === group._id);
+      if (index === -1) {
+        groupsStore.push(group);
+      } else {
+        groupsStore[index] = group;
+      }
+      await onChange();
+    }
+    return group;
+  };
+
+  const find = async (id) => {
+    const db = getDb();
+    return db
+      ? db.collection(GROUPS_COLLECTION).findOne({ _id: id })
+      : groupsStore.find(group => group._id === id) || null;
+  };
+
+  const list = async (phone_number_id) => {
+    const db = getDb();
+    const groups = db
+      ? await db.collection(GROUPS_COLLECTION).find({ phone_number_id }).toArray()
+      : groupsStore.filter(group => group.phone_number_id === phone_number_id);
+    return groups.sort((a, b) => a.name.localeCompare(b.name));
+  };
+
+  const normalizeName = (name) => {
+    const trimmed = typeof name === 'string' ? name.trim() : '';
+    if (!trimmed) {
+      throw new GroupValidationError('name is required');
+    }
+    return trimmed;
+  };
+
+  // Members have to be customers who already have a conversation on the
+  // group's number
+  const resolveMembers = async (phone_number_id, waIds) => {
+    if (!Array.isArray(waIds) || waIds.length === 0) {
+      throw new GroupValidationError('members must list at least one wa_id');
+    }
+
+    return Promise.all([...new Set(waIds.map(String))].map(async (wa_id) => {
+      if (isGroupId(wa_id)) {
+        throw new GroupValidationError('A group cannot be a member of a group');
+      }
+      const contact = await getRepository().contacts.find({ phone_number_id, wa_id });
+      if (!contact) {
+        throw new GroupValidationError(`Unknown contact: ${wa_id}`);
+      }
+      return { wa_id, profile_name: contact.profile_name || wa_id, added_at: new Date() };
+    }));
+  };
+
+  const requireAdmin = (group, agent) => {
+    if (!canManageGroup(group, agent)) {
+      throw new GroupPermissionError(`Only admins of ${group.name} can change it`);
+    }
+  };
+
+  // The creating agent is the group's first admin
+  const create = async ({ phone_number_id, name, members }, agent) => {
+    const now = new Date();
+    const group = {
+      _id: `group_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
+      phone_number_id,
+      name: normalizeName(name),
+      members: await resolveMembers(phone_number_id, members),
+      admins: [{ id: agent.id, name: agent.name }],
+      created_by: { id: agent.id, name: agent.name },
+      created_at: now,
+      updated_at: now
+    };
+
+    await save(group);
+    // The group's conversation, so it is listed alongside the other chats
+    await getRepository().contacts.upsertProfile(groupConversation(group), group.name);
+    return group;
+  };
+
+  const rename = async (group, name, agent) => {
+    requireAdmin(group, agent);
+    const renamed = await save({ ...group, name: normalizeName(name), updated_at: new Date() });
+    await getRepository().contacts.upsertProfile(groupConversation(renamed), renamed.name);
+    return renamed;
+  };
+
+  // Members already in the group are left as they are
+  const addMembers = async (group, waIds, agent) => {
+    requireAdmin(group, agent);
+    const added = (await resolveMembers(group.phone_number_id, waIds))
+      .filter(member => !group.members.some(existing => existing.wa_id === member.wa_id));
+    return save({ ...group, members: [...group.members, ...added], updated_at: new Date() });
+  };
+
+  const removeMember = async (group, wa_id, agent) => {
+    requireAdmin(group, agent);
+    if (!group.members.some(member => member.wa_id === wa_id)) {
+      throw new GroupValidationError(`${wa_id} is not a member of ${group.name}`);
+    }
+    if (group.members.length === 1) {
+      throw new GroupValidationError('A group needs at least one member');
+    }
+    return save({ ...group, members: group.members.filter(member => member.wa_id !== wa_id), updated_at: new Date() });
+  };
+
+  // `admin` is the agent being promoted, `{ id, name }`
+  const addAdmin = async (group, admin, agent) => {
+    requireAdmin(group, agent);
+    if (group.admins.some(existing => existing.id === admin.id)) {
+      return group;
+    }
+    return save({ ...group, admins: [...group.admins, admin], updated_at: new Date() });
+  };
+
+  const removeAdmin = async (group, agentId, agent) => {
+    requireAdmin(group, agent);
+    if (!group.admins.some(admin => admin.id === agentId)) {
+      throw new GroupValidationError(`${agentId} is not an admin of ${group.name}`);
+    }
+    if (group.admins.length === 1) {
+      throw new GroupValidationError('A group needs at least one admin');
+    }
+    return save({ ...group, admins: group.admins.filter(admin => admin.id !== agentId), updated_at: new Date() });
+  };
+
+  return { find, list, create, rename, addMembers, removeMember, addAdmin, removeAdmin };
+};
@@ -1,12 +1,59 @@
+import crypto from 'crypto';
 import express from 'express';
 import { createServer } from 'http';
 import { Server } from 'socket.io';
 import { MongoClient } from 'mongodb';
 import cors from 'cors';
 import dotenv from 'dotenv';
+import multer from 'multer';
+import path from 'path';
+import { fileURLToPath } from 'url';
+import { createWebhookIngestor } from './webhook-ingest.js';
+import { AccountValidationError, createAccountRegistry } from './accounts.js';
+import { AgentValidationError, authenticateSocket, createAgentStore, requireAgent, signToken } from './auth.js';
+import { createBlockList, toPublicBlock } from './blocklist.js';
+import {
+  BroadcastValidationError,
+  createBroadcastStore,
+  createCampaignProgress,
+  parseRecipientsCsv,
+  toPublicCampaign,
+  toPublicList
+} from './broadcasts.js';
+import {
+  createGroupStore,
+  fanOut,
+  GroupPermissionError,
+  GroupValidationError,
+  isGroupId,
+  toGroupUpdate,
+  toPublicGroup
+} from './groups.js';
+import { groupStatus } from './message-status.js';
+import { createOutboundQueue } from './outbound-queue.js';
+import { createRealtime } from './realtime.js';
+import { CONVERSATION_STATES, ConversationError, parseConversationRequest, toConversationUpdate } from './conversations.js';
+import { encodeCursor, InvalidCursorError, parsePageRequest } from './pagination.js';
+import { createMediaSigner } from './media-signing.js';
+import { createLocalMediaStorage } from './media-storage.js';
+import { createReportStore, ReportValidationError } from './reports.js';
+import {
+  createFileRepository,
+  createMemoryRepository,
+  createMongoIndexes,
+  createMongoRepository,
+  DuplicateClientIdError
+} from './repository.js';
+import { buildSnippet, InvalidSearchError, parseSearchRequest } from './search.js';
+import { createStarStore } from './stars.js';
+import { buildTemplateMessage, normalizeTemplate, TemplateValidationError } from './templates.js';
+import { createWebhookJournal } from './webhook-journal.js';
+import { captureRawBody, verifyWebhookSignature } from './webhook-signature.js';
 
 dotenv.config();
 
+const __dirname = path.dirname(fileURLToPath(import.meta.url));
+
 const app = express();
 const server = createServer(app);
 const io = new Server(server, {
@@ -16,101 +63,1364 @@ const io = new Server(server, {
   }
 });
 
-// Middleware
-app.use(cors());
-app.use(express.json());
+// Middleware
+app.use(cors());
+app.use(express.json({ verify: captureRawBody }));
+
+// In-memory storage for demo purposes (when MongoDB is not available)
+const demoContacts = [
+  {
+    wa_id: '1234567890',
+    profile_name: 'John Doe',
+    unreadCount: 2
+  },
+  {
+    wa_id: '0987654321',
+    profile_name: 'Jane Smith',
+    unreadCount: 0
+  },
+  {
+    wa_id: '5555555555',
+    profile_name: 'Mike Johnson',
+    unreadCount: 1
+  }
+];
+
+// Messages, contacts and conversations live behind one repository interface.
+// STORAGE=file keeps them in a JSON file instead of MongoDB; otherwise MongoDB
+// is used when reachable, with in-memory storage as the fallback.
+let repository = createMemoryRepository({ contacts: demoContacts });
+
+// MongoDB connection
+let db;
+const connectToDatabase = async () => {
+  if (process.env.STORAGE === 'file') {
+    const filePath = process.env.STORAGE_FILE || path.join(__dirname, 'data', 'whatsapp.json');
+    repository = await createFileRepository({ filePath, seed: { contacts: demoContacts }, collections: fileCollections });
+    console.log(`Using file storage at ${filePath}`);
+    return;
+  }
+
+  try {
+    const client = new MongoClient(process.env.MONGODB_URI || 'mongodb://localhost:27017');
+    await client.connect();
+    const database = client.db('whatsapp');
+
+    // Indexes come first: if one can't be created, nothing has switched to
+    // MongoDB yet and every store stays on the in-memory fallback together.
+    await createMongoIndexes(database);
+    await database.collection('groups').createIndex({ phone_number_id: 1 });
+    await database.collection('starred_messages').createIndex({ agent_id: 1 });
+    await database.collection('blocked_contacts').createIndex({ phone_number_id: 1 });
+
+    db = database;
+    repository = createMongoRepository(db);
+    console.log('Connected to MongoDB');
+  } catch (error) {
+    console.error('MongoDB connection error:', error);
+    // Use in-memory storage as fallback
+    db = null;
+  }
+};
+
+const accountsStore = [];
+const agentsStore = [];
+const groupsStore = [];
+const broadcastListsStore = [];
+const campaignsStore = [];
+const starsStore = [];
+const blockedStore = [];
+const reportsStore = [];
+const journalStore = [];
+const queueStore = [];
+const templatesStore = [];
+const mediaStore = [];
+
+// The in-memory collections STORAGE=file keeps in its snapshot, next to the
+// repository's messages and contacts: every store above. Each store gets
+// `onChange: persistFileStorage`.
+const fileCollections = {
+  accounts: accountsStore,
+  agents: agentsStore,
+  blocked_contacts: blockedStore,
+  broadcast_lists: broadcastListsStore,
+  campaigns: campaignsStore,
+  groups: groupsStore,
+  media: mediaStore,
+  outbound_queue: queueStore,
+  reports: reportsStore,
+  starred_messages: starsStore,
+  templates: templatesStore,
+  webhook_journal: journalStore
+};
+
+const persistFileStorage = () => repository.persist();
+
+// Without AUTH_SECRET every restart signs agents out
+const authSecret = process.env.AUTH_SECRET || crypto.randomBytes(32).toString('hex');
+if (!process.env.AUTH_SECRET) {
+  console.warn('AUTH_SECRET is not set; using a random secret, tokens will not survive a restart');
+}
+
+const mediaSigner = createMediaSigner({
+  secret: authSecret,
+  ttlMs: parseInt(process.env.MEDIA_URL_TTL_MS) || undefined
+});
+
+const agentStore = createAgentStore({
+  getDb: () => db,
+  agentsStore,
+  onChange: persistFileStorage
+});
+
+// Business phone numbers. The one in the environment is always available;
+// more are registered through the admin API.
+const accounts = createAccountRegistry({
+  getDb: () => db,
+  accountsStore,
+  onChange: persistFileStorage,
+  envAccount: {
+    phoneNumberId: process.env.WHATSAPP_PHONE_NUMBER_ID,
+    accessToken: process.env.WHATSAPP_ACCESS_TOKEN,
+    name: process.env.WHATSAPP_ACCOUNT_NAME,
+    displayPhoneNumber: process.env.WHATSAPP_DISPLAY_PHONE_NUMBER
+  },
+  clientOptions: {
+    baseUrl: process.env.WHATSAPP_API_BASE_URL,
+    apiVersion: process.env.WHATSAPP_API_VERSION,
+    publicBaseUrl: process.env.PUBLIC_BASE_URL,
+    signMediaUrl: mediaSigner.sign
+  }
+});
+
+// How many of the conversation's latest messages a report keeps
+const REPORTED_MESSAGES = 5;
+
+// Conversation routes take the business number as `phone_number_id` in the
+// query string; without it they use the default number
+const conversationOf = (req) => ({
+  phone_number_id: req.query.phone_number_id || accounts.defaultPhoneNumberId,
+  wa_id: req.params.wa_id
+});
+
+// Socket events go to the rooms of the conversation they are about
+const realtime = createRealtime({
+  io,
+  defaultPhoneNumberId: accounts.defaultPhoneNumberId,
+  replayLimit: parseInt(process.env.SOCKET_REPLAY_LIMIT) || undefined
+});
+
+const groups = createGroupStore({
+  getDb: () => db,
+  getRepository: () => repository,
+  groupsStore,
+  onChange: persistFileStorage
+});
+
+// Copies one member's send status onto the group message it was fanned out
+// from, and moves the group message's own status along with it
+const recordGroupDelivery = async ({ group, wa_id, status, status_timestamps, errors }) => {
+  const message = await repository.messages.recordDelivery(group.message_id, wa_id, {
+    status: status || null,
+    errors: errors || null,
+    ...(status_timestamps && { status_timestamps })
+  });
+  if (!message) return;
+
+  const overall = groupStatus(message.deliveries);
+  if (overall !== message.status) {
+    await repository.messages.update(message._id, { status: overall });
+  }
+
+  realtime.emit('groupDeliveryUpdate', {
+    messageId: message._id,
+    phone_number_id: message.phone_number_id,
+    wa_id: message.wa_id,
+    status: overall,
+    deliveries: message.deliveries
+  });
+};
+
+const broadcasts = createBroadcastStore({
+  getDb: () => db,
+  listsStore: broadcastListsStore,
+  campaignsStore,
+  onChange: persistFileStorage
+});
+
+const stars = createStarStore({
+  getDb: () => db,
+  starsStore,
+  onChange: persistFileStorage
+});
+
+const blockList = createBlockList({
+  getDb: () => db,
+  blockedStore,
+  onChange: persistFileStorage
+});
+
+const reports = createReportStore({
+  getDb: () => db,
+  reportsStore,
+  onChange: persistFileStorage
+});
+
+const campaignProgress = createCampaignProgress({
+  getRepository: () => repository,
+  findCampaign: broadcasts.campaigns.find,
+  emit: realtime.emit
+});
+
+// Status changes of a group message's member copies also update the group
+// message, and those of campaign messages the campaign's counts
+const emitMessageEvent = (event, data) => {
+  realtime.emit(event, data);
+  if (event !== 'outboundQueueUpdate' && event !== 'messageStatusUpdate') return;
+
+  if (data?.group) {
+    recordGroupDelivery(data).catch(error => {
+      console.error(`Error recording group delivery for ${data.group.message_id}:`, error);
+    });
+  }
+  if (data?.campaign) {
+    campaignProgress.touch(data.campaign.id);
+  }
+};
+
+const outboundQueue = createOutboundQueue({
+  getDb: () => db,
+  getRepository: () => repository,
+  queueStore,
+  onChange: persistFileStorage,
+  getClient: accounts.clientFor,
+  emit: emitMessageEvent,
+  maxAttempts: parseInt(process.env.OUTBOUND_MAX_ATTEMPTS) || undefined,
+  ratePerSecond: parseInt(process.env.OUTBOUND_RATE_PER_SECOND) || undefined
+});
+
+const webhookIngestor = createWebhookIngestor({
+  getRepository: () => repository,
+  defaultPhoneNumberId: accounts.defaultPhoneNumberId,
+  isBlocked: blockList.isBlocked,
+  emit: emitMessageEvent
+});
+
+const webhookJournal = createWebhookJournal({
+  getDb: () => db,
+  journalStore,
+  onChange: persistFileStorage
+});
+
+// Admin routes are only enabled when ADMIN_API_TOKEN is set, and require it
+// in the X-Admin-Token header.
+const requireAdminToken = (req, res, next) => {
+  const adminToken = process.env.ADMIN_API_TOKEN;
+
+  if (!adminToken) {
+    return res.status(403).json({ error: 'Admin API is disabled' });
+  }
+  if (req.get('x-admin-token') !== adminToken) {
+    return res.status(401).json({ error: 'Invalid admin token' });
+  }
+
+  next();
+};
+
+// Everything under /api needs a signed-in agent, except logging in, the admin
+// routes (X-Admin-Token) and media downloads through a signed URL: the Cloud
+// API fetches those by link and browsers load them through <img> tags,
+// neither can send a token. The media route checks the signature itself.
+const requireSignedInAgent = requireAgent({ secret: authSecret, agentStore });
+app.use('/api', (req, res, next) => {
+  if (req.path === '/auth/login' || req.path.startsWith('/admin/') ||
+    (req.method === 'GET' && req.path.startsWith('/media/') && req.query.signature)) {
+    return next();
+  }
+  requireSignedInAgent(req, res, next);
+});
+
+io.use(authenticateSocket({ secret: authSecret, agentStore }));
+
+app.post('/api/auth/login', async (req, res) => {
+  try {
+    const { email, password } = req.body || {};
+    const agent = await agentStore.authenticate(email, password);
+    if (!agent) {
+      return res.status(401).json({ error: 'Invalid email or password' });
+    }
+
+    res.json({ token: signToken({ sub: agent.id }, authSecret), agent });
+  } catch (error) {
+    console.error('Error logging in:', error);
+    res.status(500).json({ error: 'Failed to log in' });
+  }
+});
+
+app.get('/api/auth/me', (req, res) => {
+  res.json(req.agent);
+});
+
+// Agents a conversation can be transferred to
+app.get('/api/agents', async (req, res) => {
+  try {
+    res.json(await agentStore.list());
+  } catch (error) {
+    console.error('Error fetching agents:', error);
+    res.status(500).json({ error: 'Failed to fetch agents' });
+  }
+});
+
+// Business numbers agents can switch between, default first
+app.get('/api/accounts', async (req, res) => {
+  try {
+    res.json(await accounts.list());
+  } catch (error) {
+    console.error('Error fetching accounts:', error);
+    res.status(500).json({ error: 'Failed to fetch accounts' });
+  }
+});
+
+// API Routes
+app.get('/api/contacts', async (req, res) => {
+  try {
+    res.json(await repository.contacts.list());
+  } catch (error) {
+    console.error('Error fetching contacts:', error);
+    res.status(500).json({ error: 'Failed to fetch contacts' });
+  }
+});
+
+app.get('/api/conversations', async (req, res) => {
+  try {
+    const phoneNumberId = req.query.phone_number_id || accounts.defaultPhoneNumberId;
+    res.json(await repository.conversations.list(parseConversationRequest(req.query, req.agent.id, phoneNumberId)));
+  } catch (error) {
+    if (error instanceof InvalidCursorError || error instanceof ConversationError) {
+      return res.status(400).json({ error: error.message });
+    }
+    console.error('Error fetching conversations:', error);
+    res.status(500).json({ error: 'Failed to fetch conversations' });
+  }
+});
+
+// Applies an assignment or state change and tells every client about it
+const updateConversation = async (res, conversation, changes) => {
+  const contact = await repository.contacts.update(conversation, changes);
+  if (!contact) {
+    return res.status(404).json({ error: 'Conversation not found' });
+  }
+
+  const update = toConversationUpdate(contact);
+  realtime.emit('conversationUpdate', update);
+  res.json(update);
+};
+
+// Takes an unassigned conversation; one held by another agent has to be
+// transferred instead
+app.post('/api/conversations/:wa_id/claim', async (req, res) => {
+  try {
+    const conversation = conversationOf(req);
+    const contact = await repository.contacts.find(conversation);
+    if (!contact) {
+      return res.status(404).json({ error: 'Conversation not found' });
+    }
+    if (contact.assignee && contact.assignee.id !== req.agent.id) {
+      return res.status(409).json({ error: `Conversation is assigned to ${contact.assignee.name}` });
+    }
+
+    await updateConversation(res, conversation, {
+      assignee: { id: req.agent.id, name: req.agent.name },
+      state: contact.state === 'resolved' ? 'open' : contact.state || 'open'
+    });
+  } catch (error) {
+    console.error('Error claiming conversation:', error);
+    res.status(500).json({ error: 'Failed to claim conversation' });
+  }
+});
+
+// Hands the conversation to another agent, or back to the queue with
+// `agent_id: null`
+app.post('/api/conversations/:wa_id/transfer', async (req, res) => {
+  try {
+    const { agent_id } = req.body || {};
+    if (agent_id === undefined) {
+      return res.status(400).json({ error: 'agent_id is required' });
+    }
+
+    const agent = agent_id && await agentStore.findById(agent_id);
+    if (agent_id && !agent) {
+      return res.status(400).json({ error: `Unknown agent: ${agent_id}` });
+    }
+
+    await updateConversation(res, conversationOf(req), {
+      assignee: agent ? { id: agent._id, name: agent.name } : null
+    });
+  } catch (error) {
+    console.error('Error transferring conversation:', error);
+    res.status(500).json({ error: 'Failed to transfer conversation' });
+  }
+});
+
+app.post('/api/conversations/:wa_id/state', async (req, res) => {
+  try {
+    const { state } = req.body || {};
+    if (!CONVERSATION_STATES.includes(state)) {
+      return res.status(400).json({ error: `state must be one of ${CONVERSATION_STATES.join(', ')}` });
+    }
+
+    await updateConversation(res, conversationOf(req), { state });
+  } catch (error) {
+    console.error('Error updating conversation state:', error);
+    res.status(500).json({ error: 'Failed to update conversation state' });
+  }
+});
+
+// Moves the conversation's read marker to its newest inbound message and
+// clears the unread count
+app.post('/api/conversations/:wa_id/read', async (req, res) => {
+  try {
+    const conversation = conversationOf(req);
+    const latestInbound = await repository.messages.latestInbound(conversation);
+
+    const marker = {
+      unreadCount: 0,
+      last_read_at: latestInbound?.timestamp ?? Date.now(),
+      last_read_message_id: latestInbound?._id ?? null
+    };
+
+    if (!await repository.contacts.markRead(conversation, marker)) {
+      return res.status(404).json({ error: 'Conversation not found' });
+    }
+
+    const update = { ...conversation, unread_count: 0, last_read_at: marker.last_read_at };
+    realtime.emit('conversationRead', update);
+
+    // One receipt for the newest message covers everything before it, sent
+    // from the number the customer wrote to
+    const client = await accounts.clientFor(conversation.phone_number_id);
+    if (client.isConfigured && latestInbound?.id) {
+      client.markAsRead(latestInbound.id).catch(error => {
+        console.error(`Error sending read receipt for ${latestInbound.id}:`, error.message);
+      });
+    }
+
+    res.json(update);
+  } catch (error) {
+    console.error('Error marking conversation as read:', error);
+    res.status(500).json({ error: 'Failed to mark conversation as read' });
+  }
+});
+
+// Blocked customers of the number in `phone_number_id`, by name
+app.get('/api/blocked-contacts', async (req, res) => {
+  try {
+    const blocked = await blockList.list(req.query.phone_number_id || accounts.defaultPhoneNumberId);
+    res.json(blocked.map(toPublicBlock));
+  } catch (error) {
+    console.error('Error fetching blocked contacts:', error);
+    res.status(500).json({ error: 'Failed to fetch blocked contacts' });
+  }
+});
+
+app.post('/api/conversations/:wa_id/block', async (req, res) => {
+  try {
+    const conversation = conversationOf(req);
+    if (isGroupId(conversation.wa_id)) {
+      return res.status(400).json({ error: 'Groups cannot be blocked' });
+    }
+
+    const contact = await repository.contacts.find(conversation);
+    const block = toPublicBlock(await blockList.block(conversation, contact?.profile_name || conversation.wa_id, req.agent));
+    realtime.emit('blockUpdate', { ...conversation, blocked: true, block });
+    res.status(201).json(block);
+  } catch (error) {
+    console.error('Error blocking contact:', error);
+    res.status(500).json({ error: 'Failed to block contact' });
+  }
+});
+
+app.delete('/api/conversations/:wa_id/block', async (req, res) => {
+  try {
+    const conversation = conversationOf(req);
+    if (!await blockList.unblock(conversation)) {
+      return res.status(404).json({ error: 'Contact is not blocked' });
+    }
+
+    realtime.emit('blockUpdate', { ...conversation, blocked: false });
+    res.status(204).end();
+  } catch (error) {
+    console.error('Error unblocking contact:', error);
+    res.status(500).json({ error: 'Failed to unblock contact' });
+  }
+});
+
+// `{ reason }`: files a report for admins, with the conversation's latest
+// messages attached
+app.post('/api/conversations/:wa_id/report', async (req, res) => {
+  try {
+    const conversation = conversationOf(req);
+    const contact = await repository.contacts.find(conversation);
+    if (!contact) {
+      return res.status(404).json({ error: 'Conversation not found' });
+    }
+
+    const { messages } = await repository.messages.page(conversation, parsePageRequest({ limit: REPORTED_MESSAGES }));
+    const report = await reports.create({
+      ...conversation,
+      profile_name: contact.profile_name || conversation.wa_id,
+      reason: req.body?.reason,
+      recent_messages: messages
+    }, req.agent);
+    res.status(201).json(report);
+  } catch (error) {
+    console.error('Error reporting contact:', error);
+    res.status(500).json({ error: 'Failed to report contact' });
+  }
+});
+
+// Groups of the business number in `phone_number_id`, by name
+app.get('/api/groups', async (req, res) => {
+  try {
+    const list = await groups.list(req.query.phone_number_id || accounts.defaultPhoneNumberId);
+    res.json(list.map(toPublicGroup));
+  } catch (error) {
+    console.error('Error fetching groups:', error);
+    res.status(500).json({ error: 'Failed to fetch groups' });
+  }
+});
+
+app.get('/api/groups/:id', async (req, res) => {
+  try {
+    const group = await groups.find(req.params.id);
+    if (!group) {
+      return res.status(404).json({ error: 'Group not found' });
+    }
+    res.json(toPublicGroup(group));
+  } catch (error) {
+    console.error('Error fetching group:', error);
+    res.status(500).json({ error: 'Failed to fetch group' });
+  }
+});
+
+// `{ name, members: [wa_id], phone_number_id }`; the group gets a
+// conversation of its own on that number
+app.post('/api/groups', async (req, res) => {
+  try {
+    const { name, members, phone_number_id } = req.body || {};
+    const account = await accounts.find(phone_number_id || accounts.defaultPhoneNumberId);
+    if (!account) {
+      return res.status(400).json({ error: `Unknown phone number: ${phone_number_id}` });
+    }
+
+    const group = await groups.create({ phone_number_id: account._id, name, members }, req.agent);
+    realtime.emit('groupUpdate', toGroupUpdate(group));
+    res.status(201).json(toPublicGroup(group));
+  } catch (error) {
+    if (error instanceof GroupValidationError) {
+      return res.status(400).json({ error: error.message });
+    }
+    console.error('Error creating group:', error);
+    res.status(500).json({ error: 'Failed to create group' });
+  }
+});
+
+// Applies a change that only the group's admins may make, and tells the
+// number's sidebar about it
+const updateGroup = async (req, res, change) => {
+  const group = await groups.find(req.params.id);
+  if (!group) {
+    return res.status(404).json({ error: 'Group not found' });
+  }
+
+  let updated;
+  try {
+    updated = await change(group);
+  } catch (error) {
+    if (error instanceof GroupValidationError) {
+      return res.status(400).json({ error: error.message });
+    }
+    if (error instanceof GroupPermissionError) {
+      return res.status(403).json({ error: error.message });
+    }
+    throw error;
+  }
+
+  realtime.emit('groupUpdate', toGroupUpdate(updated));
+  res.json(toPublicGroup(updated));
+};
+
+app.patch('/api/groups/:id', async (req, res) => {
+  try {
+    await updateGroup(req, res, group => groups.rename(group, req.body?.name, req.agent));
+  } catch (error) {
+    console.error('Error renaming group:', error);
+    res.status(500).json({ error: 'Failed to rename group' });
+  }
+});
+
+// `{ members: [wa_id] }`
+app.post('/api/groups/:id/members', async (req, res) => {
+  try {
+    await updateGroup(req, res, group => groups.addMembers(group, req.body?.members, req.agent));
+  } catch (error) {
+    console.error('Error adding group members:', error);
+    res.status(500).json({ error: 'Failed to add group members' });
+  }
+});
+
+app.delete('/api/groups/:id/members/:wa_id', async (req, res) => {
+  try {
+    await updateGroup(req, res, group => groups.removeMember(group, req.params.wa_id, req.agent));
+  } catch (error) {
+    console.error('Error removing group member:', error);
+    res.status(500).json({ error: 'Failed to remove group member' });
+  }
+});
+
+// `{ agent_id }`: makes another agent an admin of the group
+app.post('/api/groups/:id/admins', async (req, res) => {
+  try {
+    const agent = req.body?.agent_id && await agentStore.findById(String(req.body.agent_id));
+    if (!agent) {
+      return res.status(400).json({ error: `Unknown agent: ${req.body?.agent_id}` });
+    }
+
+    await updateGroup(req, res, group => groups.addAdmin(group, { id: agent._id, name: agent.name }, req.agent));
+  } catch (error) {
+    console.error('Error adding group admin:', error);
+    res.status(500).json({ error: 'Failed to add group admin' });
+  }
+});
+
+app.delete('/api/groups/:id/admins/:agentId', async (req, res) => {
+  try {
+    await updateGroup(req, res, group => groups.removeAdmin(group, req.params.agentId, req.agent));
+  } catch (error) {
+    console.error('Error removing group admin:', error);
+    res.status(500).json({ error: 'Failed to remove group admin' });
+  }
+});
+
+// Broadcast lists of the number in `phone_number_id`, newest first
+app.get('/api/broadcast-lists', async (req, res) => {
+  try {
+    const lists = await broadcasts.lists.list(req.query.phone_number_id || accounts.defaultPhoneNumberId);
+    res.json(lists.map(toPublicList));
+  } catch (error) {
+    console.error('Error fetching broadcast lists:', error);
+    res.status(500).json({ error: 'Failed to fetch broadcast lists' });
+  }
+});
+
+const csvUpload = multer({
+  storage: multer.memoryStorage(),
+  limits: { fileSize: 2 * 1024 * 1024, files: 1 }
+}).single('file');
+
+// Either multipart with `name`, `phone_number_id` and a CSV `file`, or JSON
+// `{ name, phone_number_id, recipients: [{ wa_id, profile_name }] }`. CSV
+// rows without a valid number are skipped and listed in `skipped`.
+app.post('/api/broadcast-lists', (req, res) => {
+  csvUpload(req, res, async (uploadError) => {
+    try {
+      if (uploadError) {
+        return res.status(400).json({ error: uploadError.message });
+      }
+
+      const { name, phone_number_id } = req.body || {};
+      const account = await accounts.find(phone_number_id || accounts.defaultPhoneNumberId);
+      if (!account) {
+        return res.status(400).json({ error: `Unknown phone number: ${phone_number_id}` });
+      }
+
+      const { recipients, skipped } = req.file
+        ? parseRecipientsCsv(req.file.buffer.toString('utf8'))
+        : { recipients: req.body?.recipients, skipped: [] };
+
+      const list = await broadcasts.lists.create({ phone_number_id: account._id, name, recipients }, req.agent);
+      res.status(201).json({ ...toPublicList(list), skipped });
+    } catch (error) {
+      if (error instanceof BroadcastValidationError) {
+        return res.status(400).json({ error: error.message });
+      }
+      console.error('Error creating broadcast list:', error);
+      res.status(500).json({ error: 'Failed to create broadcast list' });
+    }
+  });
+});
+
+// Campaigns already sent to the list keep their copy of it
+app.delete('/api/broadcast-lists/:id', async (req, res) => {
+  try {
+    if (!await broadcasts.lists.remove(req.params.id)) {
+      return res.status(404).json({ error: 'Broadcast list not found' });
+    }
+    res.status(204).end();
+  } catch (error) {
+    console.error('Error removing broadcast list:', error);
+    res.status(500).json({ error: 'Failed to remove broadcast list' });
+  }
+});
+
+// Campaigns of the number in `phone_number_id` with their counts, newest first
+app.get('/api/campaigns', async (req, res) => {
+  try {
+    const campaigns = await broadcasts.campaigns.list(req.query.phone_number_id || accounts.defaultPhoneNumberId);
+    res.json(await Promise.all(campaigns.map(async campaign =>
+      toPublicCampaign(campaign, await campaignProgress.stats(campaign)))));
+  } catch (error) {
+    console.error('Error fetching campaigns:', error);
+    res.status(500).json({ error: 'Failed to fetch campaigns' });
+  }
+});
+
+// Every recipient with the status of their message, or `skipped: 'blocked'`
+app.get('/api/campaigns/:id/recipients', async (req, res) => {
+  try {
+    const campaign = await broadcasts.campaigns.find(req.params.id);
+    if (!campaign) {
+      return res.status(404).json({ error: 'Campaign not found' });
+    }
+
+    const messages = new Map((await repository.messages.findByCampaign(campaign._id)).map(msg => [msg.wa_id, msg]));
+    const skipped = new Set(campaign.skipped);
+    res.json(campaign.recipients.map(recipient => {
+      const message = messages.get(recipient.wa_id);
+      return {
+        ...recipient,
+        message_id: message?._id ?? null,
+        status: message?.status ?? null,
+        errors: message?.errors ?? null,
+        ...(skipped.has(recipient.wa_id) && { skipped: 'blocked' })
+      };
+    }));
+  } catch (error) {
+    console.error('Error fetching campaign recipients:', error);
+    res.status(500).json({ error: 'Failed to fetch campaign recipients' });
+  }
+});
+
+// Queued sends of a campaign start this far apart, so a large campaign leaves
+// room in the number's rate limit for replies in live chats
+const CAMPAIGN_SEND_INTERVAL_MS = 1000 / (parseInt(process.env.CAMPAIGN_RATE_PER_SECOND) || 10);
+
+// Gives every recipient their own message in their own conversation, except
+// the ones skipped because they are blocked. No socket event per recipient:
+// on a large list that would flood every sidebar, so clients follow the
+// campaign through campaignUpdate instead.
+const launchCampaign = async (campaign) => {
+  const client = await accounts.clientFor(campaign.phone_number_id);
+  const startAt = Date.now();
+  const skipped = new Set(campaign.skipped);
+  const recipients = campaign.recipients.filter(recipient => !skipped.has(recipient.wa_id));
+
+  for (const [index, recipient] of recipients.entries()) {
+    const conversation = { phone_number_id: campaign.phone_number_id, wa_id: recipient.wa_id };
+    if (!await repository.contacts.find(conversation)) {
+      await repository.contacts.upsertProfile(conversation, recipient.profile_name);
+    }
+
+    const message = {
+      ...campaign.message,
+      ...conversation,
+      _id: `msg_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
+      campaign: { id: campaign._id, name: campaign.name },
+      from: campaign.phone_number_id,
+      to: recipient.wa_id,
+      direction: 'outbound',
+      agent: campaign.created_by,
+      timestamp: Date.now(),
+      ...(client.isConfigured && { status: 'pending' })
+    };
+
+    await repository.messages.insert(message);
+    if (client.isConfigured) {
+      await outboundQueue.enqueue(message, { notBefore: startAt + index * CAMPAIGN_SEND_INTERVAL_MS });
+    }
+  }
+
+  campaignProgress.touch(campaign._id);
+};
+
+// `{ list_id, name, type: 'text', text: { body } }` or
+// `{ list_id, name, type: 'template', template_id, parameters }`; the sends
+// start in the background
+app.post('/api/campaigns', async (req, res) => {
+  try {
+    const { name, list_id, type, text, template_id, parameters } = req.body || {};
+    const list = list_id && await broadcasts.lists.find(String(list_id));
+    if (!list) {
+      return res.status(400).json({ error: `Unknown broadcast list: ${list_id}` });
+    }
+
+    let message;
+    if (type === 'template') {
+      const template = await findTemplate(template_id);
+      if (!template) {
+        return res.status(404).json({ error: 'Template not found' });
+      }
+      message = { type: 'template', template: buildTemplateMessage(template, parameters) };
+    } else if (type === 'text' && typeof text?.body === 'string' && text.body.trim()) {
+      message = { type: 'text', text: { body: text.body.trim() } };
+    } else {
+      return res.status(400).json({ error: 'A campaign sends a text message or a template' });
+    }
+
+    const blocked = await blockList.blockedAmong(list.phone_number_id, list.recipients.map(recipient => recipient.wa_id));
+    const campaign = await broadcasts.campaigns.create({ name, list, message, skipped: [...blocked] }, req.agent);
+    launchCampaign(campaign).catch(error => {
+      console.error(`Error launching campaign ${campaign._id}:`, error);
+    });
+
+    res.status(201).json(toPublicCampaign(campaign, await campaignProgress.stats(campaign)));
+  } catch (error) {
+    if (error instanceof BroadcastValidationError || error instanceof TemplateValidationError) {
+      return res.status(400).json({ error: error.message });
+    }
+    console.error('Error creating campaign:', error);
+    res.status(500).json({ error: 'Failed to create campaign' });
+  }
+});
+
+// Messages the agent has starred come back with `starred: true`
+app.get('/api/messages/:wa_id', async (req, res) => {
+  try {
+    const page = await repository.messages.page(conversationOf(req), parsePageRequest(req.query));
+    const starred = await stars.starredIds(req.agent.id, page.messages.map(message => message._id));
+    res.json({
+      ...page,
+      messages: page.messages.map(message => (starred.has(message._id) ? { ...message, starred: true } : message))
+    });
+  } catch (error) {
+    if (error instanceof InvalidCursorError) {
+      return res.status(400).json({ error: error.message });
+    }
+    console.error('Error fetching messages:', error);
+    res.status(500).json({ error: 'Failed to fetch messages' });
+  }
+});
+
+// Searches messages in every conversation, newest first. Each result carries
+// a highlighted snippet and the cursor to open its conversation around it.
+app.get('/api/search', async (req, res) => {
+  try {
+    const request = parseSearchRequest(req.query, req.query.phone_number_id || accounts.defaultPhoneNumberId);
+    const rows = await repository.messages.search(request);
 
-// MongoDB connection
-let db;
-const connectToDatabase = async () => {
+    res.json({
+      results: rows.slice(0, request.limit).map(message => ({
+        message,
+        snippet: buildSnippet(message, request.terms),
+        cursor: encodeCursor(message)
+      })),
+      has_more: rows.length > request.limit
+    });
+  } catch (error) {
+    if (error instanceof InvalidSearchError) {
+      return res.status(400).json({ error: error.message });
+    }
+    console.error('Error searching messages:', error);
+    res.status(500).json({ error: 'Failed to search messages' });
+  }
+});
+
+// The agent's starred messages on one business number, most recently starred
+// first, each with its contact's name and the cursor to open the
+// conversation around it
+app.get('/api/starred-messages', async (req, res) => {
   try {
-    const client = new MongoClient(process.env.MONGODB_URI || 'mongodb://localhost:27017');
-    await client.connect();
-    db = client.db('whatsapp');
-    console.log('Connected to MongoDB');
+    const phoneNumberId = req.query.phone_number_id || accounts.defaultPhoneNumberId;
+    const results = [];
+    for (const star of await stars.list(req.agent.id)) {
+      const message = await repository.messages.findById(star.message_id);
+      if (!message || message.phone_number_id !== phoneNumberId) continue;
+
+      const contact = await repository.contacts.find({ phone_number_id: message.phone_number_id, wa_id: message.wa_id });
+      results.push({
+        message: { ...message, starred: true },
+        profile_name: contact?.profile_name || message.wa_id,
+        starred_at: star.starred_at,
+        cursor: encodeCursor(message)
+      });
+    }
+    res.json(results);
   } catch (error) {
-    console.error('MongoDB connection error:', error);
-    // Use in-memory storage as fallback
-    db = null;
+    console.error('Error fetching starred messages:', error);
+    res.status(500).json({ error: 'Failed to fetch starred messages' });
+  }
+});
+
+app.put('/api/messages/:id/star', async (req, res) => {
+  try {
+    const message = await repository.messages.findById(req.params.id);
+    if (!message) {
+      return res.status(404).json({ error: 'Message not found' });
+    }
+
+    await stars.star(req.agent.id, message._id);
+    res.json({ message_id: message._id, starred: true });
+  } catch (error) {
+    console.error('Error starring message:', error);
+    res.status(500).json({ error: 'Failed to star message' });
+  }
+});
+
+app.delete('/api/messages/:id/star', async (req, res) => {
+  try {
+    await stars.unstar(req.agent.id, req.params.id);
+    res.status(204).end();
+  } catch (error) {
+    console.error('Error unstarring message:', error);
+    res.status(500).json({ error: 'Failed to unstar message' });
+  }
+});
+
+// Message types agents can send. A client only chooses the type, its content
+// (`text`, or the media object under the type's name) and a reply `context`;
+// the recipient, status, ids and timestamps are always set here.
+const OUTBOUND_TYPES = ['text', 'image', 'video', 'audio', 'document', 'sticker', 'location', 'template'];
+
+const toOutboundContent = ({ type, context, ...body }) => ({
+  type,
+  ...(type !== 'template' && { [type]: body[type] }),
+  ...(context && { context })
+});
+
+app.post('/api/messages', async (req, res) => {
+  try {
+    const { template_id, parameters, phone_number_id, client_id, wa_id: waId, ...body } = req.body || {};
+    if (!waId) {
+      return res.status(400).json({ error: 'wa_id is required' });
+    }
+    if (!OUTBOUND_TYPES.includes(body.type)) {
+      return res.status(400).json({ error: `Unsupported message type: ${body.type}` });
+    }
+    if (body.type !== 'template' && (!body[body.type] || typeof body[body.type] !== 'object')) {
+      return res.status(400).json({ error: `${body.type} content is required` });
+    }
+    const wa_id = String(waId);
+
+    // A client resending after a lost response gets the stored message back
+    // instead of sending it twice
+    const clientId = client_id ? String(client_id) : null;
+    const existing = clientId && await repository.messages.findByClientId(clientId);
+    if (existing) {
+      return res.status(200).json(existing);
+    }
+
+    // Sent from the conversation's business number, on behalf of the agent
+    const account = await accounts.find(phone_number_id || accounts.defaultPhoneNumberId);
+    if (!account) {
+      return res.status(400).json({ error: `Unknown phone number: ${phone_number_id}` });
+    }
+
+    const group = isGroupId(wa_id) ? await groups.find(wa_id) : null;
+    if (isGroupId(wa_id) && group?.phone_number_id !== account._id) {
+      return res.status(404).json({ error: 'Group not found' });
+    }
+    if (await blockList.isBlocked({ phone_number_id: account._id, wa_id })) {
+      return res.status(403).json({ error: 'Contact is blocked' });
+    }
+
+    const message = {
+      ...toOutboundContent(body),
+      wa_id,
+      to: wa_id,
+      ...(clientId && { client_id: clientId }),
+      ...(group && { group_id: group._id, sender: { id: req.agent.id, name: req.agent.name } }),
+      phone_number_id: account._id,
+      from: account._id,
+      direction: 'outbound',
+      agent: { id: req.agent.id, name: req.agent.name },
+      timestamp: Date.now(),
+      _id: `msg_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`
+    };
+
+    if (message.type === 'template') {
+      const template = await findTemplate(template_id);
+      if (!template) {
+        return res.status(404).json({ error: 'Template not found' });
+      }
+      message.template = buildTemplateMessage(template, parameters);
+    }
+
+    // Without Cloud API credentials messages are only stored (demo mode)
+    const client = await accounts.clientFor(account._id);
+    if (client.isConfigured) {
+      message.status = 'pending';
+    }
+
+    // A group message is only stored; its member copies are what is sent,
+    // to every member who isn't blocked
+    const blocked = group && await blockList.blockedAmong(account._id, group.members.map(member => member.wa_id));
+    const { copies, deliveries } = group ? fanOut(message, group, blocked) : { copies: [message] };
+    if (group) {
+      message.deliveries = deliveries;
+      await repository.messages.insert(message);
+    }
+    for (const outgoing of copies) {
+      await repository.messages.insert(outgoing);
+      if (client.isConfigured) {
+        await outboundQueue.enqueue(outgoing);
+      }
+    }
+
+    // Emit to the agents in this chat, and the sidebar of its number
+    realtime.emit('newMessage', message);
+    if (group) {
+      copies.forEach(copy => realtime.emit('newMessage', copy));
+    }
+
+    res.status(201).json(message);
+  } catch (error) {
+    if (error instanceof TemplateValidationError) {
+      return res.status(400).json({ error: error.message });
+    }
+    // A resend of the same message got stored first; answer with that one
+    if (error instanceof DuplicateClientIdError) {
+      return res.status(200).json(await repository.messages.findByClientId(error.clientId));
+    }
+    console.error('Error saving message:', error);
+    res.status(500).json({ error: 'Failed to save message' });
+  }
+});
+
+// Message templates
+const findTemplate = async (id) => {
+  if (db) {
+    return db.collection('templates').findOne({ _id: id });
   }
+  return templatesStore.find(template => template._id === id);
 };
 
-// In-memory storage for demo purposes (when MongoDB is not available)
-let messagesStore = [];
-let contactsStore = [
-  {
-    wa_id: '1234567890',
-    profile_name: 'John Doe',
-    unreadCount: 2
-  },
-  {
-    wa_id: '0987654321',
-    profile_name: 'Jane Smith',
-    unreadCount: 0
-  },
-  {
-    wa_id: '5555555555',
-    profile_name: 'Mike Johnson',
-    unreadCount: 1
+const findTemplateByName = async (name, language) => {
+  if (db) {
+    return db.collection('templates').findOne({ name, language });
   }
-];
+  return templatesStore.find(template => template.name === name && template.language === language);
+};
 
-// API Routes
-app.get('/api/contacts', async (req, res) => {
+app.get('/api/templates', async (req, res) => {
   try {
     if (db) {
-      const contacts = await db.collection('contacts').find({}).toArray();
-      res.json(contacts);
+      const templates = await db.collection('templates').find({}).sort({ name: 1 }).toArray();
+      res.json(templates);
     } else {
-      res.json(contactsStore);
+      res.json([...templatesStore].sort((a, b) => a.name.localeCompare(b.name)));
     }
   } catch (error) {
-    console.error('Error fetching contacts:', error);
-    res.status(500).json({ error: 'Failed to fetch contacts' });
+    console.error('Error fetching templates:', error);
+    res.status(500).json({ error: 'Failed to fetch templates' });
   }
 });
 
-app.get('/api/messages/:wa_id', async (req, res) => {
+app.get('/api/templates/:id', async (req, res) => {
+  try {
+    const template = await findTemplate(req.params.id);
+    if (!template) {
+      return res.status(404).json({ error: 'Template not found' });
+    }
+    res.json(template);
+  } catch (error) {
+    console.error('Error fetching template:', error);
+    res.status(500).json({ error: 'Failed to fetch template' });
+  }
+});
+
+app.post('/api/templates', async (req, res) => {
   try {
-    const { wa_id } = req.params;
+    const fields = normalizeTemplate(req.body);
+    if (await findTemplateByName(fields.name, fields.language)) {
+      return res.status(409).json({ error: `Template ${fields.name} (${fields.language}) already exists` });
+    }
+
+    const template = {
+      _id: `tpl_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
+      ...fields,
+      created_at: new Date(),
+      updated_at: new Date()
+    };
 
     if (db) {
-      const messages = await db.collection('processed_messages')
-        .find({ wa_id })
-        .sort({ timestamp: 1 })
-        .toArray();
-      res.json(messages);
+      await db.collection('templates').insertOne(template);
     } else {
-      const messages = messagesStore.filter(msg => msg.wa_id === wa_id);
-      res.json(messages);
+      templatesStore.push(template);
+      await persistFileStorage();
     }
+
+    res.status(201).json(template);
   } catch (error) {
-    console.error('Error fetching messages:', error);
-    res.status(500).json({ error: 'Failed to fetch messages' });
+    if (error instanceof TemplateValidationError) {
+      return res.status(400).json({ error: error.message });
+    }
+    console.error('Error creating template:', error);
+    res.status(500).json({ error: 'Failed to create template' });
   }
 });
 
-app.post('/api/messages', async (req, res) => {
+app.put('/api/templates/:id', async (req, res) => {
   try {
-    const message = {
-      ...req.body,
-      timestamp: Date.now(),
-      _id: `msg_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`
-    };
+    const existing = await findTemplate(req.params.id);
+    if (!existing) {
+      return res.status(404).json({ error: 'Template not found' });
+    }
+
+    const fields = normalizeTemplate({ ...existing, ...req.body });
+    const duplicate = await findTemplateByName(fields.name, fields.language);
+    if (duplicate && duplicate._id !== existing._id) {
+      return res.status(409).json({ error: `Template ${fields.name} (${fields.language}) already exists` });
+    }
 
+    const template = { ...existing, ...fields, updated_at: new Date() };
     if (db) {
-      await db.collection('processed_messages').insertOne(message);
+      await db.collection('templates').replaceOne({ _id: existing._id }, template);
     } else {
-      messagesStore.push(message);
+      templatesStore[templatesStore.indexOf(existing)] = template;
+      await persistFileStorage();
+    }
+
+    res.json(template);
+  } catch (error) {
+    if (error instanceof TemplateValidationError) {
+      return res.status(400).json({ error: error.message });
     }
+    console.error('Error updating template:', error);
+    res.status(500).json({ error: 'Failed to update template' });
+  }
+});
 
-    // Emit to all connected clients
-    io.emit('newMessage', message);
+app.delete('/api/templates/:id', async (req, res) => {
+  try {
+    const existing = await findTemplate(req.params.id);
+    if (!existing) {
+      return res.status(404).json({ error: 'Template not found' });
+    }
 
-    res.status(201).json(message);
+    if (db) {
+      await db.collection('templates').deleteOne({ _id: existing._id });
+    } else {
+      templatesStore.splice(templatesStore.indexOf(existing), 1);
+      await persistFileStorage();
+    }
+
+    res.status(204).end();
   } catch (error) {
-    console.error('Error saving message:', error);
-    res.status(500).json({ error: 'Failed to save message' });
+    console.error('Error deleting template:', error);
+    res.status(500).json({ error: 'Failed to delete template' });
+  }
+});
+
+// Media uploads. Bytes go to the pluggable storage backend, metadata to the
+// `media` collection; messages only carry the media id and its URL.
+const mediaStorage = createLocalMediaStorage({
+  directory: process.env.MEDIA_DIR || path.join(__dirname, 'uploads')
+});
+
+const MEDIA_MAX_BYTES = parseInt(process.env.MEDIA_MAX_BYTES) || 16 * 1024 * 1024;
+const THUMBNAIL_MAX_BYTES = 512 * 1024;
+const ALLOWED_MEDIA_TYPES = [
+  'image/jpeg', 'image/png', 'image/webp',
+  'video/mp4', 'video/3gpp',
+  'audio/aac', 'audio/mp4', 'audio/mpeg', 'audio/amr', 'audio/ogg', 'audio/webm',
+  'application/pdf', 'text/plain',
+  'application/msword', 'application/vnd.openxmlformats-officedocument.wordprocessingml.document',
+  'application/vnd.ms-excel', 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+  'application/vnd.ms-powerpoint', 'application/vnd.openxmlformats-officedocument.presentationml.presentation'
+];
+
+const mediaUpload = multer({
+  storage: multer.memoryStorage(),
+  limits: { fileSize: MEDIA_MAX_BYTES, files: 2 },
+  fileFilter: (req, file, callback) => {
+    const allowed = file.fieldname === 'thumbnail'
+      ? ['image/jpeg', 'image/png', 'image/webp'].includes(file.mimetype)
+      : ALLOWED_MEDIA_TYPES.includes(file.mimetype.split(';')[0]);
+
+    if (!allowed) {
+      const error = new Error(`Unsupported media type: ${file.mimetype}`);
+      error.code = 'UNSUPPORTED_MEDIA_TYPE';
+      return callback(error);
+    }
+    callback(null, true);
+  }
+}).fields([{ name: 'file', maxCount: 1 }, { name: 'thumbnail', maxCount: 1 }]);
+
+const findMedia = async (id) => {
+  if (db) {
+    return db.collection('media').findOne({ _id: id });
+  }
+  return mediaStore.find(media => media._id === id);
+};
+
+const saveMedia = async (file, extra = {}) => {
+  const media = {
+    // Unguessable, though media is only served to agents or by signed URL
+    _id: `media_${crypto.randomUUID()}`,
+    filename: file.originalname,
+    mime_type: file.mimetype,
+    size: file.size,
+    ...extra,
+    created_at: new Date()
+  };
+
+  await mediaStorage.save(media._id, file.buffer);
+  if (db) {
+    await db.collection('media').insertOne(media);
+  } else {
+    mediaStore.push(media);
+    await persistFileStorage();
+  }
+  return media;
+};
+
+const toMediaResponse = (media) => ({
+  id: media._id,
+  url: `/api/media/${media._id}`,
+  filename: media.filename,
+  mime_type: media.mime_type,
+  size: media.size,
+  ...(media.thumbnail_id && { thumbnail_url: `/api/media/${media.thumbnail_id}` })
+});
+
+app.post('/api/media', (req, res) => {
+  mediaUpload(req, res, async (uploadError) => {
+    if (uploadError) {
+      if (uploadError.code === 'LIMIT_FILE_SIZE') {
+        return res.status(413).json({ error: `File is larger than ${MEDIA_MAX_BYTES} bytes` });
+      }
+      if (uploadError.code === 'UNSUPPORTED_MEDIA_TYPE') {
+        return res.status(415).json({ error: uploadError.message });
+      }
+      return res.status(400).json({ error: uploadError.message });
+    }
+
+    try {
+      const file = req.files?.file?.[0];
+      const thumbnail = req.files?.thumbnail?.[0];
+
+      if (!file) {
+        return res.status(400).json({ error: 'A "file" field is required' });
+      }
+      if (thumbnail && thumbnail.size > THUMBNAIL_MAX_BYTES) {
+        return res.status(413).json({ error: `Thumbnail is larger than ${THUMBNAIL_MAX_BYTES} bytes` });
+      }
+
+      const thumbnailMedia = thumbnail && await saveMedia(thumbnail, { kind: 'thumbnail' });
+      const media = await saveMedia(file, thumbnailMedia ? { thumbnail_id: thumbnailMedia._id } : {});
+
+      res.status(201).json(toMediaResponse(media));
+    } catch (error) {
+      console.error('Error storing media:', error);
+      res.status(500).json({ error: 'Failed to store media' });
+    }
+  });
+});
+
+// `{ urls: ['/api/media/:id', ...] }`: signed URLs for <img>, <video> and
+// download links, as `{ urls: { [url]: signed_url } }`. Anything that isn't
+// our media comes back unchanged.
+app.post('/api/media/signed-urls', (req, res) => {
+  const urls = req.body?.urls;
+  if (!Array.isArray(urls) || urls.length > 500) {
+    return res.status(400).json({ error: 'urls must be a list of at most 500 media URLs' });
+  }
+  res.json({ urls: Object.fromEntries(urls.map(url => [url, mediaSigner.sign(String(url))])) });
+});
+
+// Serves stored media to agents, or to anyone with an unexpired signed URL,
+// honouring single `Range: bytes=start-end` requests so audio and video can
+// seek
+app.get('/api/media/:id', async (req, res) => {
+  try {
+    if (req.query.signature && !mediaSigner.verify(req.params.id, req.query)) {
+      return res.status(403).json({ error: 'Media link is invalid or has expired' });
+    }
+
+    const media = await findMedia(req.params.id);
+    const stats = media && await mediaStorage.stat(media._id);
+
+    if (!stats) {
+      return res.status(404).json({ error: 'Media not found' });
+    }
+
+    res.set({
+      'Content-Type': media.mime_type,
+      'Accept-Ranges': 'bytes',
+      'Cache-Control': 'private, max-age=31536000, immutable'
+    });
+
+    const range = req.headers.range?.match(/^bytes=(\d*)-(\d*)$/);
+    if (!range) {
+      res.set('Content-Length', stats.size);
+      return mediaStorage.createReadStream(media._id).pipe(res);
+    }
+
+    let start = range[1] === '' ? undefined : parseInt(range[1]);
+    let end = range[2] === '' ? stats.size - 1 : Math.min(parseInt(range[2]), stats.size - 1);
+    if (start === undefined) {
+      // Suffix range: the last N bytes
+      start = Math.max(stats.size - parseInt(range[2]), 0);
+      end = stats.size - 1;
+    }
+
+    if (isNaN(start) || start > end || start >= stats.size) {
+      res.set('Content-Range', `bytes */${stats.size}`);
+      return res.status(416).end();
+    }
+
+    res.status(206).set({
+      'Content-Range': `bytes ${start}-${end}/${stats.size}`,
+      'Content-Length': end - start + 1
+    });
+    mediaStorage.createReadStream(media._id, { start, end }).pipe(res);
+  } catch (error) {
+    console.error('Error serving media:', error);
+    res.status(500).json({ error: 'Failed to serve media' });
+  }
+});
+
+// Re-triggers a failed or stuck outbound message. A group message is retried
+// for the members it failed for.
+app.post('/api/messages/:id/retry', async (req, res) => {
+  try {
+    const message = await repository.messages.findById(req.params.id);
+    if (message?.deliveries) {
+      const failed = message.deliveries.filter(delivery => delivery.status === 'failed');
+      if (failed.length === 0) {
+        return res.status(409).json({ error: 'Message has not failed for any member' });
+      }
+
+      const items = [];
+      for (const delivery of failed) {
+        items.push(await outboundQueue.retry(delivery.message_id));
+      }
+      return res.json({ retried: items.filter(Boolean) });
+    }
+
+    const item = await outboundQueue.retry(req.params.id);
+
+    if (!item) {
+      return res.status(404).json({ error: 'Message is not in the outbound queue' });
+    }
+    if (item.state === 'sent' || item.state === 'sending') {
+      return res.status(409).json({ error: `Message is already ${item.state}` });
+    }
+
+    res.json(item);
+  } catch (error) {
+    console.error('Error retrying message:', error);
+    res.status(500).json({ error: 'Failed to retry message' });
+  }
+});
+
+app.get('/api/outbound/dead-letter', async (req, res) => {
+  try {
+    const items = await outboundQueue.deadLetters(Math.min(parseInt(req.query.limit) || 50, 500));
+    res.json(items);
+  } catch (error) {
+    console.error('Error fetching dead-letter queue:', error);
+    res.status(500).json({ error: 'Failed to fetch dead-letter queue' });
   }
 });
 
@@ -130,130 +1440,135 @@ app.get('/webhook', (req, res) => {
 });
 
 // Webhook endpoint for processing WhatsApp payloads
-app.post('/webhook', async (req, res) => {
+app.post('/webhook', verifyWebhookSignature(process.env.WHATSAPP_APP_SECRET), async (req, res) => {
   try {
     const payload = req.body;
     console.log('Received webhook payload:', JSON.stringify(payload, null, 2));
 
-    // Process different types of payloads
-    if (payload.entry && payload.entry[0] && payload.entry[0].changes) {
-      const changes = payload.entry[0].changes[0];
-
-      if (changes.field === 'messages' && changes.value) {
-        const { messages, statuses, contacts } = changes.value;
-
-        // Process new messages
-        if (messages) {
-          for (const message of messages) {
-            const processedMessage = {
-              _id: `msg_${message.id}`,
-              id: message.id,
-              from: message.from,
-              to: changes.value.metadata?.phone_number_id || 'business',
-              text: message.text,
-              timestamp: parseInt(message.timestamp) * 1000,
-              type: message.type,
-              status: 'received',
-              wa_id: message.from,
-              profile_name: contacts?.[0]?.profile?.name || message.from
-            };
-
-            if (db) {
-              await db.collection('processed_messages').insertOne(processedMessage);
-            } else {
-              messagesStore.push(processedMessage);
-            }
-
-            // Emit to all connected clients
-            io.emit('newMessage', processedMessage);
-          }
-        }
-
-        // Process status updates
-        if (statuses) {
-          for (const status of statuses) {
-            const updateQuery = {
-              $or: [
-                { id: status.id },
-                { meta_msg_id: status.id }
-              ]
-            };
-
-            if (db) {
-              await db.collection('processed_messages').updateOne(
-                updateQuery,
-                { $set: { status: status.status } }
-              );
-            } else {
-              const messageIndex = messagesStore.findIndex(msg =>
-                msg.id === status.id || msg.meta_msg_id === status.id
-              );
-              if (messageIndex !== -1) {
-                messagesStore[messageIndex].status = status.status;
-              }
-            }
-
-            // Emit status update to all connected clients
-            io.emit('messageStatusUpdate', {
-              messageId: status.id,
-              status: status.status
-            });
-          }
-        }
-
-        // Process contacts
-        if (contacts) {
-          for (const contact of contacts) {
-            if (db) {
-              await db.collection('contacts').updateOne(
-                { wa_id: contact.wa_id },
-                {
-                  $set: {
-                    profile_name: contact.profile?.name || contact.wa_id,
-                    wa_id: contact.wa_id
-                  }
-                },
-                { upsert: true }
-              );
-            } else {
-              const existingContact = contactsStore.find(c => c.wa_id === contact.wa_id);
-              if (!existingContact) {
-                contactsStore.push({
-                  wa_id: contact.wa_id,
-                  profile_name: contact.profile?.name || contact.wa_id,
-                  unreadCount: 0
-                });
-              }
-            }
-          }
-        }
-      }
-    }
+    const summary = await webhookJournal.ingest(payload, webhookIngestor);
 
-    res.status(200).json({ success: true });
+    res.status(200).json({ success: true, ...summary });
   } catch (error) {
     console.error('Webhook processing error:', error);
     res.status(500).json({ error: 'Webhook processing failed' });
   }
 });
 
+// Webhook journal inspection and replay
+app.get('/api/admin/webhooks', requireAdminToken, async (req, res) => {
+  try {
+    const entries = await webhookJournal.find({
+      status: req.query.status,
+      limit: Math.min(parseInt(req.query.limit) || 50, 500)
+    });
+    res.json(entries);
+  } catch (error) {
+    console.error('Error fetching webhook journal:', error);
+    res.status(500).json({ error: 'Failed to fetch webhook journal' });
+  }
+});
+
+app.post('/api/admin/webhooks/replay', requireAdminToken, async (req, res) => {
+  try {
+    const { ids, status, limit } = req.body || {};
+    const results = await webhookJournal.replay(webhookIngestor, { ids, status, limit });
+    res.json({
+      replayed: results.length,
+      failed: results.filter(result => result.status === 'failed').length,
+      results
+    });
+  } catch (error) {
+    console.error('Error replaying webhooks:', error);
+    res.status(500).json({ error: 'Failed to replay webhooks' });
+  }
+});
+
+// Reports filed by agents, newest first; `status=open|resolved` filters them
+app.get('/api/admin/reports', requireAdminToken, async (req, res) => {
+  try {
+    res.json(await reports.list({
+      status: req.query.status,
+      limit: Math.min(parseInt(req.query.limit) || 50, 500)
+    }));
+  } catch (error) {
+    if (error instanceof ReportValidationError) {
+      return res.status(400).json({ error: error.message });
+    }
+    console.error('Error fetching reports:', error);
+    res.status(500).json({ error: 'Failed to fetch reports' });
+  }
+});
+
+// `{ note }` is kept with the report as its resolution
+app.post('/api/admin/reports/:id/resolve', requireAdminToken, async (req, res) => {
+  try {
+    const report = await reports.resolve(req.params.id, req.body?.note);
+    if (!report) {
+      return res.status(404).json({ error: 'Report not found' });
+    }
+    res.json(report);
+  } catch (error) {
+    console.error('Error resolving report:', error);
+    res.status(500).json({ error: 'Failed to resolve report' });
+  }
+});
+
+app.get('/api/admin/agents', requireAdminToken, async (req, res) => {
+  try {
+    res.json(await agentStore.list());
+  } catch (error) {
+    console.error('Error fetching agents:', error);
+    res.status(500).json({ error: 'Failed to fetch agents' });
+  }
+});
+
+app.post('/api/admin/agents', requireAdminToken, async (req, res) => {
+  try {
+    res.status(201).json(await agentStore.create(req.body || {}));
+  } catch (error) {
+    if (error instanceof AgentValidationError) {
+      return res.status(400).json({ error: error.message });
+    }
+    console.error('Error creating agent:', error);
+    res.status(500).json({ error: 'Failed to create agent' });
+  }
+});
+
+// Registers a business number, or replaces its name and credentials
+app.post('/api/admin/accounts', requireAdminToken, async (req, res) => {
+  try {
+    res.status(201).json(await accounts.register(req.body || {}));
+  } catch (error) {
+    if (error instanceof AccountValidationError) {
+      return res.status(400).json({ error: error.message });
+    }
+    console.error('Error registering account:', error);
+    res.status(500).json({ error: 'Failed to register account' });
+  }
+});
+
+// Conversations and messages of a removed number are kept
+app.delete('/api/admin/accounts/:id', requireAdminToken, async (req, res) => {
+  try {
+    if (!await accounts.remove(req.params.id)) {
+      return res.status(404).json({ error: 'Account not found' });
+    }
+    res.status(204).end();
+  } catch (error) {
+    console.error('Error removing account:', error);
+    res.status(500).json({ error: 'Failed to remove account' });
+  }
+});
+
 // Socket.IO connection handling
 io.on('connection', (socket) => {
-  console.log('A user connected:', socket.id);
+  console.log(`Agent ${socket.data.agent.email} connected:`, socket.id);
 
   socket.on('disconnect', () => {
     console.log('User disconnected:', socket.id);
   });
 
-  socket.on('join-chat', (wa_id) => {
-    socket.join(`chat-${wa_id}`);
-    console.log(`User ${socket.id} joined chat ${wa_id}`);
-  });
-
-  socket.on('leave-chat', (wa_id) => {
-    socket.leave(`chat-${wa_id}`);
-    console.log(`User ${socket.id} left chat ${wa_id}`);
-  });
+  realtime.handleConnection(socket);
 });
 
 // Health check endpoint
@@ -261,7 +1576,8 @@ app.get('/health', (req, res) => {
   res.json({
     status: 'healthy',
     timestamp: new Date().toISOString(),
-    database: db ? 'connected' : 'in-memory'
+    database: db ? 'connected' : 'in-memory',
+    storage: repository.kind
   });
 });
 
@@ -270,6 +1586,21 @@ const PORT = process.env.PORT || 3001;
 // Initialize server
 const startServer = async () => {
   await connectToDatabase();
+  await repository.assignPhoneNumber(accounts.defaultPhoneNumberId);
+
+  // First run: create the initial agent from the environment
+  if (process.env.AGENT_EMAIL && process.env.AGENT_PASSWORD && await agentStore.count() === 0) {
+    const agent = await agentStore.create({
+      email: process.env.AGENT_EMAIL,
+      name: process.env.AGENT_NAME,
+      password: process.env.AGENT_PASSWORD,
+      role: 'admin'
+    });
+    console.log(`Created initial agent ${agent.email}`);
+  }
+
+  // Runs even without credentials: numbers can be registered at runtime
+  await outboundQueue.start();
 
   server.listen(PORT, () => {
     console.log(`Server running on port ${PORT}`);
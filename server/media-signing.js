@@ -0,0 +1,40 @@
+import crypto from 'crypto';
+
+// Stored media is private. Agents fetch it with their token; everything that
+// can't send one (<img> and <video> tags, the Cloud API downloading an
+// outbound attachment) gets a signed URL that expires:
+//
+//   /api/media/<id>?expires=<epoch ms>&signature=<HMAC-SHA256 of "<id>:<expires>">
+//
+// Expiry times are rounded up to the next multiple of `ttlMs`, so a URL is
+// valid for between one and two `ttlMs` and signing the same media again
+// within that window gives the same URL, which browsers can cache.
+
+const MEDIA_PATH = /^\/api\/media\/([\w-]+)$/;
+
+export const createMediaSigner = ({ secret, ttlMs = 60 * 60 * 1000, now = Date.now }) => {
+  const signatureFor = (id, expires) =>
+    crypto.createHmac('sha256', secret).update(`${id}:${expires}`).digest('base64url');
+
+  // URLs that aren't our own media (already public links) come back as they are
+  const sign = (url) => {
+    const match = typeof url === 'string' && MEDIA_PATH.exec(url);
+    if (!match) {
+      return url;
+    }
+    const expires = Math.ceil((now() + ttlMs) / ttlMs) * ttlMs;
+    return `${url}?expires=${expires}&signature=${signatureFor(match[1], expires)}`;
+  };
+
+  const verify = (id, { expires, signature }) => {
+    const expiresAt = Number(expires);
+    if (!Number.isFinite(expiresAt) || expiresAt < now() || typeof signature !== 'string') {
+      return false;
+    }
+    const expected = Buffer.from(signatureFor(id, expiresAt));
+    const received = Buffer.from(signature);
+    return expected.length === received.length && crypto.timingSafeEqual(expected, received);
+  };
+
+  return { sign, verify };
+};
@@ -0,0 +1,51 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import { createMediaSigner } from './media-signing.js';
+
+const HOUR = 60 * 60 * 1000;
+
+const signedParams = (url) => Object.fromEntries(new URL(url, 'http://localhost').searchParams);
+
+describe('createMediaSigner', () => {
+  const clock = { time: 10 * HOUR + 5 };
+  const signer = createMediaSigner({ secret: 'test-secret', ttlMs: HOUR, now: () => clock.time });
+
+  it('signs media URLs so they verify until they expire', () => {
+    clock.time = 10 * HOUR + 5;
+    const params = signedParams(signer.sign('/api/media/media_1'));
+
+    assert.equal(params.expires, String(12 * HOUR));
+    assert.equal(signer.verify('media_1', params), true);
+
+    clock.time = 12 * HOUR;
+    assert.equal(signer.verify('media_1', params), true);
+    clock.time = 12 * HOUR + 1;
+    assert.equal(signer.verify('media_1', params), false);
+  });
+
+  it('gives the same URL within one ttl window', () => {
+    clock.time = 10 * HOUR + 5;
+    const first = signer.sign('/api/media/media_1');
+    clock.time = 11 * HOUR - 1;
+
+    assert.equal(signer.sign('/api/media/media_1'), first);
+  });
+
+  it('rejects a signature for other media, another expiry or another secret', () => {
+    clock.time = 10 * HOUR + 5;
+    const params = signedParams(signer.sign('/api/media/media_1'));
+    const other = createMediaSigner({ secret: 'other-secret', ttlMs: HOUR, now: () => clock.time });
+
+    assert.equal(signer.verify('media_2', params), false);
+    assert.equal(signer.verify('media_1', { ...params, expires: String(13 * HOUR) }), false);
+    assert.equal(signer.verify('media_1', { ...params, signature: params.signature.replace(/^./, first => (first === 'A' ? 'B' : 'A')) }), false);
+    assert.equal(signer.verify('media_1', { expires: params.expires }), false);
+    assert.equal(other.verify('media_1', params), false);
+  });
+
+  it('leaves URLs that aren\'t our media alone', () => {
+    for (const url of ['https://cdn.example.com/a.jpg', '/api/media/media_1/extra', null, undefined]) {
+      assert.equal(signer.sign(url), url);
+    }
+  });
+});
@@ -0,0 +1,45 @@
+import fs from 'fs';
+import path from 'path';
+
+// Where uploaded media bytes live. Any backend (local disk, S3, ...) only has
+// to implement this shape:
+//   save(key, buffer)                  -> Promise<void>
+//   stat(key)                          -> Promise<{ size } | null>
+//   createReadStream(key, { start, end }) -> Readable
+//   remove(key)                        -> Promise<void>
+
+export const createLocalMediaStorage = ({ directory }) => {
+  // Keys are generated server-side, but never let one escape the directory
+  const resolve = (key) => {
+    const filePath = path.resolve(directory, key);
+    if (!filePath.startsWith(path.resolve(directory) + path.sep)) {
+      throw new Error(`Invalid media key: ${key}`);
+    }
+    return filePath;
+  };
+
+  const save = async (key, buffer) => {
+    await fs.promises.mkdir(directory, { recursive: true });
+    await fs.promises.writeFile(resolve(key), buffer);
+  };
+
+  const stat = async (key) => {
+    try {
+      const stats = await fs.promises.stat(resolve(key));
+      return { size: stats.size };
+    } catch (error) {
+      if (error.code === 'ENOENT') {
+        return null;
+      }
+      throw error;
+    }
+  };
+
+  const createReadStream = (key, range) => fs.createReadStream(resolve(key), range);
+
+  const remove = async (key) => {
+    await fs.promises.rm(resolve(key), { force: true });
+  };
+
+  return { save, stat, createReadStream, remove };
+};
@@ -0,0 +1,32 @@
+// Outbound delivery statuses in the order they may be reached. `failed` can
+// only replace a status that never got as far as `delivered`, and nothing
+// moves a message out of `failed`.
+const STATUS_RANK = { sent: 1, delivered: 2, read: 3 };
+
+export const canAdvanceStatus = (current, next) => {
+  if (current === 'failed') {
+    return false;
+  }
+  if (next === 'failed') {
+    return (STATUS_RANK[current] || 0) < STATUS_RANK.delivered;
+  }
+  return (STATUS_RANK[next] || 0) > (STATUS_RANK[current] || 0);
+};
+
+// The current statuses `next` must not overwrite, for conditional updates
+export const blockedStatusesFor = (next) =>
+  ['sent', 'delivered', 'read', 'failed'].filter(current => !canAdvanceStatus(current, next));
+
+// A group message is as far along as its least advanced member. Members it
+// failed for don't hold it back, unless it failed for every one of them, and
+// neither do members it skipped.
+export const groupStatus = (deliveries) => {
+  const active = deliveries.filter(delivery => !delivery.skipped && delivery.status !== 'failed');
+  if (active.length === 0) {
+    return 'failed';
+  }
+  return active.reduce(
+    (lowest, { status }) => ((STATUS_RANK[status] || 0) < (STATUS_RANK[lowest] || 0) ? status : lowest),
+    'read'
+  );
+};
@@ -0,0 +1,273 @@
+import { WhatsAppApiError } from './whatsapp-client.js';
+
+// Durable outbound queue. Every send becomes a queue item stored next to the
+// messages (the `outbound_queue` collection, or an in-memory array), so
+// pending sends survive a restart. Transient Cloud API failures are retried
+// with exponential backoff; items that run out of attempts or fail for good
+// are moved to the dead-letter state until an agent re-triggers them.
+
+const QUEUE_COLLECTION = 'outbound_queue';
+
+// Cloud API error codes worth retrying: rate limits and temporary outages
+const TRANSIENT_ERROR_CODES = [4, 80007, 130429, 131000, 131016, 131048, 131056, 133004];
+
+export const isTransientError = (error) => {
+  if (!(error instanceof WhatsAppApiError)) {
+    return false;
+  }
+  if (!error.status || error.status === 429 || error.status >= 500) {
+    return true;
+  }
+  return TRANSIENT_ERROR_CODES.includes(error.error?.code);
+};
+
+const toMessageErrors = (error) => (error instanceof WhatsAppApiError
+  ? error.toMessageErrors()
+  : [{ code: 0, title: 'Send failed', message: error.message }]);
+
+export const createOutboundQueue = ({
+  getDb,
+  getRepository,
+  queueStore = [],
+  // Resolves to the Cloud API client for a business phone number id
+  getClient,
+  emit = () => { },
+  maxAttempts = 5,
+  baseDelayMs = 2000,
+  maxDelayMs = 5 * 60 * 1000,
+  ratePerSecond = 20,
+  pollIntervalMs = 500,
+  log = console.log,
+  onChange = async () => { }
+}) => {
+  // Token buckets keyed by business phone number id
+  const buckets = new Map();
+  let timer = null;
+  let running = false;
+  let ticking = false;
+
+  const takeToken = (phoneNumberId) => {
+    const now = Date.now();
+    const bucket = buckets.get(phoneNumberId) || { tokens: ratePerSecond, refilledAt: now };
+
+    bucket.tokens = Math.min(ratePerSecond, bucket.tokens + ((now - bucket.refilledAt) / 1000) * ratePerSecond);
+    bucket.refilledAt = now;
+    buckets.set(phoneNumberId, bucket);
+
+    if (bucket.tokens < 1) {
+      return false;
+    }
+    bucket.tokens--;
+    return true;
+  };
+
+  const backoffDelay = (attempts) => {
+    const delay = Math.min(maxDelayMs, baseDelayMs * 2 ** (attempts - 1));
+    // Up to 20% jitter so retries from one burst don't line up again
+    return Math.round(delay * (0.8 + Math.random() * 0.2));
+  };
+
+  const findMessage = (messageId) => getRepository().messages.findById(messageId);
+
+  const updateMessage = (messageId, changes) => getRepository().messages.update(messageId, changes);
+
+  const updateItem = async (itemId, changes) => {
+    const db = getDb();
+    const update = { ...changes, updated_at: new Date() };
+    if (db) {
+      await db.collection(QUEUE_COLLECTION).updateOne({ _id: itemId }, { $set: update });
+    } else {
+      const item = queueStore.find(i => i._id === itemId);
+      if (item) {
+        Object.assign(item, update);
+        await onChange();
+      }
+    }
+  };
+
+  const findItems = async (query, { limit = 50 } = {}) => {
+    const db = getDb();
+    if (db) {
+      return db.collection(QUEUE_COLLECTION)
+        .find(query)
+        .sort({ next_attempt_at: 1 })
+        .limit(limit)
+        .toArray();
+    }
+
+    return queueStore
+      .filter(item => Object.entries(query).every(([key, condition]) => {
+        if (condition?.$in) return condition.$in.includes(item[key]);
+        if (condition?.$lte) return item[key] <= condition.$lte;
+        return item[key] === condition;
+      }))
+      .sort((a, b) => a.next_attempt_at - b.next_attempt_at)
+      .slice(0, limit);
+  };
+
+  const notify = (item, message, changes) => {
+    emit('outboundQueueUpdate', {
+      messageId: item.message_id,
+      client_id: message?.client_id,
+      phone_number_id: item.phone_number_id,
+      wa_id: message?.wa_id,
+      group: message?.group,
+      campaign: message?.campaign,
+      state: changes.state ?? item.state,
+      attempts: changes.attempts ?? item.attempts,
+      next_attempt_at: changes.next_attempt_at ?? null,
+      id: message?.id,
+      status: message?.status,
+      status_timestamps: message?.status_timestamps,
+      errors: message?.errors
+    });
+  };
+
+  // `notBefore` holds the send back until then (campaigns spread their sends)
+  const enqueue = async (message, { notBefore } = {}) => {
+    const now = Date.now();
+    const item = {
+      _id: `out_${message._id}`,
+      message_id: message._id,
+      phone_number_id: message.phone_number_id || 'default',
+      state: 'pending',
+      attempts: 0,
+      next_attempt_at: notBefore ?? now,
+      created_at: new Date(now),
+      updated_at: new Date(now)
+    };
+
+    const db = getDb();
+    if (db) {
+      await db.collection(QUEUE_COLLECTION).insertOne(item);
+    } else {
+      queueStore.push(item);
+      await onChange();
+    }
+
+    schedule(0);
+    return item;
+  };
+
+  const attempt = async (item) => {
+    const message = await findMessage(item.message_id);
+    if (!message) {
+      await updateItem(item._id, { state: 'dead', last_error: 'Message no longer exists' });
+      return;
+    }
+
+    const attempts = item.attempts + 1;
+    await updateItem(item._id, { state: 'sending', attempts });
+
+    try {
+      const client = await getClient(item.phone_number_id);
+      const wamid = await client.sendMessage(message);
+      const sentAt = Date.now();
+      const changes = {
+        id: wamid,
+        meta_msg_id: wamid,
+        status: 'sent',
+        status_timestamps: { ...message.status_timestamps, sent: sentAt },
+        errors: null
+      };
+
+      await updateMessage(message._id, changes);
+      await updateItem(item._id, { state: 'sent', last_error: null });
+      log(`Sent queued message ${message._id} as ${wamid}`);
+      notify(item, { ...message, ...changes }, { state: 'sent', attempts });
+    } catch (error) {
+      const errors = toMessageErrors(error);
+      const exhausted = attempts >= maxAttempts;
+
+      if (isTransientError(error) && !exhausted) {
+        const nextAttemptAt = Date.now() + backoffDelay(attempts);
+        await updateMessage(message._id, { status: 'retrying', errors });
+        await updateItem(item._id, { state: 'retrying', next_attempt_at: nextAttemptAt, last_error: error.message });
+        log(`Send of ${message._id} failed (attempt ${attempts}/${maxAttempts}), retrying: ${error.message}`);
+        notify(item, { ...message, status: 'retrying', errors }, { state: 'retrying', attempts, next_attempt_at: nextAttemptAt });
+        return;
+      }
+
+      const failedAt = Date.now();
+      const changes = {
+        status: 'failed',
+        status_timestamps: { ...message.status_timestamps, failed: failedAt },
+        errors
+      };
+      await updateMessage(message._id, changes);
+      await updateItem(item._id, { state: 'dead', last_error: error.message });
+      console.error(`Send of ${message._id} moved to dead letter after ${attempts} attempt(s):`, error.message);
+      notify(item, { ...message, ...changes }, { state: 'dead', attempts });
+    }
+  };
+
+  const tick = async () => {
+    if (ticking) return;
+    ticking = true;
+
+    try {
+      const dueItems = await findItems({
+        state: { $in: ['pending', 'retrying'] },
+        next_attempt_at: { $lte: Date.now() }
+      });
+
+      for (const item of dueItems) {
+        // Over the phone number's limit: leave it due for the next tick
+        if (!takeToken(item.phone_number_id)) continue;
+        await attempt(item);
+      }
+    } catch (error) {
+      console.error('Outbound queue error:', error);
+    } finally {
+      ticking = false;
+    }
+  };
+
+  function schedule(delay = pollIntervalMs) {
+    if (!running) return;
+    clearTimeout(timer);
+    timer = setTimeout(async () => {
+      await tick();
+      schedule();
+    }, delay);
+  }
+
+  // Items left mid-send by a crash are retried rather than lost
+  const start = async () => {
+    const interrupted = await findItems({ state: 'sending' }, { limit: 1000 });
+    for (const item of interrupted) {
+      await updateItem(item._id, { state: 'retrying', next_attempt_at: Date.now() });
+    }
+
+    running = true;
+    schedule(0);
+  };
+
+  const stop = () => {
+    running = false;
+    clearTimeout(timer);
+  };
+
+  // Puts a dead-lettered (or stuck) message back at the front of the queue
+  const retry = async (messageId) => {
+    const [item] = await findItems({ message_id: messageId }, { limit: 1 });
+    if (!item) {
+      return null;
+    }
+    if (item.state === 'sent' || item.state === 'sending') {
+      return item;
+    }
+
+    const changes = { state: 'pending', attempts: 0, next_attempt_at: Date.now(), last_error: null };
+    await updateItem(item._id, changes);
+    await updateMessage(messageId, { status: 'pending' });
+    const message = await findMessage(messageId);
+    notify(item, message, changes);
+    schedule(0);
+    return { ...item, ...changes };
+  };
+
+  const deadLetters = (limit) => findItems({ state: 'dead' }, { limit });
+
+  return { enqueue, start, stop, retry, deadLetters };
+};
@@ -0,0 +1,96 @@
+// Cursor pagination over a conversation's messages, ordered by
+// (timestamp, _id). A cursor is an opaque token naming one message's place in
+// that order; pages are always returned oldest first.
+
+export const DEFAULT_PAGE_SIZE = 50;
+export const MAX_PAGE_SIZE = 200;
+
+export class InvalidCursorError extends Error {
+  constructor(cursor) {
+    super(`Invalid cursor: ${cursor}`);
+    this.name = 'InvalidCursorError';
+  }
+}
+
+export const encodeCursor = (message) =>
+  Buffer.from(JSON.stringify([message.timestamp, String(message._id)])).toString('base64url');
+
+export const decodeCursor = (cursor) => {
+  try {
+    const [timestamp, id] = JSON.parse(Buffer.from(cursor, 'base64url').toString('utf8'));
+    if (typeof timestamp !== 'number' || typeof id !== 'string') {
+      throw new Error('malformed');
+    }
+    return { timestamp, id };
+  } catch {
+    throw new InvalidCursorError(cursor);
+  }
+};
+
+export const parsePageSize = (limit) =>
+  Math.min(Math.max(parseInt(limit) || DEFAULT_PAGE_SIZE, 1), MAX_PAGE_SIZE);
+
+// Resolves `before`/`after` query parameters into a page request. With
+// neither, the page is the latest messages.
+export const parsePageRequest = ({ before, after, limit }) => ({
+  direction: after && !before ? 'after' : 'before',
+  cursor: before ? decodeCursor(before) : after ? decodeCursor(after) : null,
+  limit: parsePageSize(limit)
+});
+
+export const cursorFilter = ({ direction, cursor }) => {
+  if (!cursor) {
+    return {};
+  }
+  const op = direction === 'before' ? '$lt' : '$gt';
+  return {
+    $or: [
+      { timestamp: { [op]: cursor.timestamp } },
+      { timestamp: cursor.timestamp, _id: { [op]: cursor.id } }
+    ]
+  };
+};
+
+// Same order as the Mongo sort: binary string order for ids, not locale order
+export const compareMessages = (a, b) => {
+  if (a.timestamp !== b.timestamp) {
+    return a.timestamp - b.timestamp;
+  }
+  const [idA, idB] = [String(a._id), String(b._id)];
+  return idA < idB ? -1 : idA > idB ? 1 : 0;
+};
+
+// `rows` holds up to limit + 1 messages in fetch order (newest first when
+// paging backwards); the extra row only tells whether more exist.
+export const toPage = (rows, { direction, cursor, limit }) => {
+  const hasMore = rows.length > limit;
+  const messages = rows.slice(0, limit);
+  if (direction === 'before') {
+    messages.reverse();
+  }
+
+  return {
+    messages,
+    before: messages.length ? encodeCursor(messages[0]) : null,
+    after: messages.length ? encodeCursor(messages[messages.length - 1]) : null,
+    has_more_before: direction === 'before' ? hasMore : Boolean(cursor),
+    has_more_after: direction === 'after' ? hasMore : Boolean(cursor)
+  };
+};
+
+export const paginateInMemory = (messages, request) => {
+  const { direction, cursor, limit } = request;
+  const sorted = [...messages].sort(compareMessages);
+  const inRange = cursor
+    ? sorted.filter(message => {
+      const order = compareMessages(message, { timestamp: cursor.timestamp, _id: cursor.id });
+      return direction === 'before' ? order < 0 : order > 0;
+    })
+    : sorted;
+
+  const rows = direction === 'before'
+    ? inRange.slice(-(limit + 1)).reverse()
+    : inRange.slice(0, limit + 1);
+
+  return toPage(rows, request);
+};
@@ -0,0 +1,220 @@
+// Socket.IO delivery. Clients only hear about what they are looking at:
+//
+//   inbox-<phone_number_id>            sidebar channel for one business number:
+//                                      conversationActivity, conversationUpdate,
+//                                      conversationRead, groupUpdate,
+//                                      campaignUpdate, blockUpdate
+//   chat-<phone_number_id>:<wa_id>     the open conversation: newMessage,
+//                                      messageStatusUpdate, messageReaction,
+//                                      outboundQueueUpdate, groupDeliveryUpdate,
+//                                      agentTyping, chatPresence
+//
+// A socket is in at most one inbox and one chat room, switched with
+// `join-inbox` and `join-chat`/`leave-chat`. Rooms don't survive a reconnect,
+// so clients send `resume` on every `connect`: it joins both rooms again and
+// answers with the events the client missed while it was away.
+//
+// Every event above except agentTyping and chatPresence (which only matter
+// while they happen) is sent with a second argument `{ epoch, seq }`. `seq`
+// increases with every event; `epoch` changes when the server restarts, which
+// invalidates older sequence numbers.
+
+const CHAT_EVENTS = ['newMessage', 'messageStatusUpdate', 'messageReaction', 'outboundQueueUpdate', 'groupDeliveryUpdate'];
+const INBOX_EVENTS = ['conversationUpdate', 'conversationRead', 'groupUpdate', 'campaignUpdate', 'blockUpdate'];
+
+export const chatRoom = ({ phone_number_id, wa_id }) => `chat-${phone_number_id}:${wa_id}`;
+
+export const inboxRoom = (phoneNumberId) => `inbox-${phoneNumberId}`;
+
+// What the sidebar needs to move a conversation to the top with its preview
+const toActivity = (message) => ({
+  phone_number_id: message.phone_number_id,
+  wa_id: message.wa_id,
+  profile_name: message.profile_name,
+  last_message: message
+});
+
+export const createRealtime = ({ io, defaultPhoneNumberId, replayLimit = 1000, log = console.log }) => {
+  const epoch = Date.now().toString(36);
+  let seq = 0;
+  // The last `replayLimit` events, oldest first
+  const history = [];
+
+  const publish = (room, event, data) => {
+    const meta = { epoch, seq: ++seq };
+    history.push({ room, event, data, seq: meta.seq });
+    if (history.length > replayLimit) {
+      history.shift();
+    }
+    (room ? io.to(room) : io).emit(event, data, meta);
+  };
+
+  const toConversation = (data) => ({
+    phone_number_id: data?.phone_number_id || defaultPhoneNumberId,
+    wa_id: data?.wa_id
+  });
+
+  // Routes an event by its name to the room of the conversation it is about
+  const emit = (event, data) => {
+    const conversation = toConversation(data);
+
+    if (CHAT_EVENTS.includes(event)) {
+      if (conversation.wa_id) {
+        publish(chatRoom(conversation), event, data);
+      }
+      // Reactions never become a conversation's preview
+      if (event === 'newMessage' && data.type !== 'reaction') {
+        publish(inboxRoom(conversation.phone_number_id), 'conversationActivity', toActivity(data));
+      }
+      return;
+    }
+
+    if (INBOX_EVENTS.includes(event)) {
+      publish(inboxRoom(conversation.phone_number_id), event, data);
+      return;
+    }
+
+    publish(null, event, data);
+  };
+
+  // Events after `lastSeq` for the socket's rooms. A client from another
+  // epoch, or one that has been away longer than the history reaches back,
+  // has to reload instead.
+  const missedEvents = (socket, lastEpoch, lastSeq) => {
+    if (lastEpoch === undefined || lastSeq === undefined) {
+      return { epoch, seq, events: [] };
+    }
+
+    const oldest = history[0]?.seq ?? seq + 1;
+    if (lastEpoch !== epoch || oldest > lastSeq + 1) {
+      return { epoch, seq, resync: true };
+    }
+
+    return {
+      epoch,
+      seq,
+      events: history
+        .filter(entry => entry.seq > lastSeq && (!entry.room || socket.rooms.has(entry.room)))
+        .map(entry => ({ event: entry.event, data: entry.data, seq: entry.seq }))
+    };
+  };
+
+  // Agents with the conversation open, each listed once however many tabs
+  // they have
+  const broadcastPresence = async (conversation) => {
+    const sockets = await io.in(chatRoom(conversation)).fetchSockets();
+    const agents = [...new Map(sockets.map(s => [s.data.agent.id, s.data.agent])).values()]
+      .map(({ id, name }) => ({ id, name }));
+    io.to(chatRoom(conversation)).emit('chatPresence', { ...conversation, agents });
+  };
+
+  // Sent to everyone else in the chat; clients stop showing it after a few
+  // seconds without a refresh
+  const sendTyping = (socket, conversation, typing) => {
+    const { id, name } = socket.data.agent;
+    io.to(chatRoom(conversation)).except(socket.id).emit('agentTyping', {
+      ...conversation,
+      agent: { id, name },
+      typing
+    });
+  };
+
+  const leaveChat = async (socket) => {
+    const conversation = socket.data.chat;
+    if (!conversation) return;
+
+    socket.data.chat = null;
+    socket.leave(chatRoom(conversation));
+    sendTyping(socket, conversation, false);
+    await broadcastPresence(conversation);
+  };
+
+  const joinInbox = (socket, phoneNumberId) => {
+    for (const room of socket.rooms) {
+      if (room.startsWith('inbox-')) socket.leave(room);
+    }
+    socket.join(inboxRoom(phoneNumberId || defaultPhoneNumberId));
+  };
+
+  // Joins straight away; the returned promise settles once the old chat's
+  // presence has been updated
+  const joinChat = (socket, conversation) => {
+    const previous = socket.data.chat && chatRoom(socket.data.chat) !== chatRoom(conversation)
+      ? socket.data.chat
+      : null;
+    if (previous) {
+      socket.leave(chatRoom(previous));
+      sendTyping(socket, previous, false);
+    }
+
+    socket.data.chat = conversation;
+    socket.join(chatRoom(conversation));
+    log(`Agent ${socket.data.agent.email} joined chat ${chatRoom(conversation)}`);
+
+    return Promise.all([
+      previous && broadcastPresence(previous),
+      broadcastPresence(conversation)
+    ]);
+  };
+
+  const handleConnection = (socket) => {
+    const { agent } = socket.data;
+
+    socket.on('join-inbox', (phoneNumberId) => joinInbox(socket, phoneNumberId));
+
+    socket.on('join-chat', async (data) => {
+      try {
+        const conversation = toConversation(data);
+        if (!conversation.wa_id) return;
+        await joinChat(socket, conversation);
+      } catch (error) {
+        console.error('Error joining chat:', error);
+      }
+    });
+
+    // `{ phone_number_id, wa_id, epoch, seq }`: the rooms to be in and the
+    // last event seen, if any. Answers with `{ epoch, seq, events }`, or
+    // `{ epoch, seq, resync: true }` when the events are no longer available.
+    socket.on('resume', async (data, ack) => {
+      try {
+        joinInbox(socket, data?.phone_number_id);
+        const conversation = data?.wa_id && toConversation(data);
+        const joined = conversation ? joinChat(socket, conversation) : null;
+
+        // Computed before anything else can be emitted, so live events
+        // continue exactly where the replay stops
+        const result = missedEvents(socket, data?.epoch, data?.seq);
+        if (typeof ack === 'function') ack(result);
+        log(`Agent ${agent.email} resumed: ${result.resync ? 'resync' : `${result.events.length} missed event(s)`}`);
+        await joined;
+      } catch (error) {
+        console.error('Error resuming session:', error);
+      }
+    });
+
+    socket.on('leave-chat', async () => {
+      try {
+        await leaveChat(socket);
+      } catch (error) {
+        console.error('Error leaving chat:', error);
+      }
+    });
+
+    socket.on('typing', (typing) => {
+      if (socket.data.chat) {
+        sendTyping(socket, socket.data.chat, Boolean(typing));
+      }
+    });
+
+    // The socket has already left its rooms here, so presence excludes it
+    socket.on('disconnect', async () => {
+      try {
+        await leaveChat(socket);
+      } catch (error) {
+        console.error('Error updating chat presence:', error);
+      }
+    });
+  };
+
+  return { emit, handleConnection };
+};
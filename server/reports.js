@@ -0,0 +1,82 @@
+// Reports agents file about customers (spam, abuse), kept for admins to review
+// through the admin API. A report keeps the conversation's latest messages as
+// they were when it was filed.
+
+const REPORTS_COLLECTION = 'reports';
+
+export const REPORT_STATUSES = ['open', 'resolved'];
+
+export class ReportValidationError extends Error {
+  constructor(message) {
+    super(message);
+    this.name = 'ReportValidationError';
+  }
+}
+
+export const createReportStore = ({ getDb, reportsStore = [], onChange = async () => { } }) => {
+  const create = async ({ phone_number_id, wa_id, profile_name, reason, recent_messages }, agent) => {
+    const report = {
+      _id: `report_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
+      phone_number_id,
+      wa_id,
+      profile_name,
+      reason: typeof reason === 'string' ? reason.trim() : '',
+      recent_messages,
+      status: 'open',
+      reported_by: { id: agent.id, name: agent.name },
+      created_at: new Date()
+    };
+
+    const db = getDb();
+    if (db) {
+      await db.collection(REPORTS_COLLECTION).insertOne(report);
+    } else {
+      reportsStore.push(report);
+      await onChange();
+    }
+    return report;
+  };
+
+  // Newest first, optionally only those with the given status
+  const list = async ({ status, limit }) => {
+    if (status && !REPORT_STATUSES.includes(status)) {
+      throw new ReportValidationError(`status must be one of: ${REPORT_STATUSES.join(', ')}`);
+    }
+
+    const db = getDb();
+    if (db) {
+      return db.collection(REPORTS_COLLECTION)
+        .find(status ? { status } : {})
+        .sort({ created_at: -1 })
+        .limit(limit)
+        .toArray();
+    }
+    return reportsStore
+      .filter(report => !status || report.status === status)
+      .sort((a, b) => b.created_at - a.created_at)
+      .slice(0, limit);
+  };
+
+  // Resolves to null for an unknown report
+  const resolve = async (id, note) => {
+    const changes = {
+      status: 'resolved',
+      resolution: typeof note === 'string' ? note.trim() : '',
+      resolved_at: new Date()
+    };
+
+    const db = getDb();
+    if (db) {
+      return db.collection(REPORTS_COLLECTION).findOneAndUpdate({ _id: id }, { $set: changes }, { returnDocument: 'after' });
+    }
+    const report = reportsStore.find(r => r._id === id);
+    if (!report) {
+      return null;
+    }
+    Object.assign(report, changes);
+    await onChange();
+    return report;
+  };
+
+  return { create, list, resolve };
+};
@@ -0,0 +1,513 @@
+import fs from 'fs';
+import path from 'path';
+import { blockedStatusesFor, canAdvanceStatus } from './message-status.js';
+import { listConversations, listConversationsInMemory } from './conversations.js';
+import { compareMessages, cursorFilter, paginateInMemory, toPage } from './pagination.js';
+import { matchesSearch, SEARCH_FIELDS, textSearchQuery } from './search.js';
+
+// Storage for messages, contacts and conversation summaries. Every backend
+// (MongoDB, in-memory, embedded file) implements the same shape, so routes and
+// the webhook pipeline never branch on which one is in use:
+//
+//   kind                                          'mongo' | 'memory' | 'file'
+//   messages.insert(message)                      -> Promise<void> (DuplicateClientIdError when
+//                                                    another message has its client_id)
+//   messages.upsertByWhatsAppId(message)          -> Promise<boolean> (true when new)
+//   messages.findById(_id)                        -> Promise<message | null>
+//   messages.findByWhatsAppId(wamid)              -> Promise<message | null>
+//   messages.findByClientId(client_id)            -> Promise<message | null>
+//   messages.update(_id, changes)                 -> Promise<void>
+//   messages.recordStatus(wamid, { status, timestamp, errors })
+//                                                 -> Promise<message | null>
+//   messages.recordDelivery(_id, wa_id, changes)  -> Promise<message | null> (group messages)
+//   messages.findByCampaign(campaign_id)          -> Promise<message[]>
+//   messages.countCampaignStatuses(campaign_id)   -> Promise<{ [status]: count }>
+//   messages.page(conversation, pageRequest)      -> Promise<page>
+//   messages.latestInbound(conversation)          -> Promise<message | null>
+//   messages.search(searchRequest)                -> Promise<message[]> (newest first, up to limit + 1)
+//   contacts.list()                               -> Promise<contact[]>
+//   contacts.find(conversation)                   -> Promise<contact | null>
+//   contacts.update(conversation, changes)        -> Promise<contact | null> (after the change)
+//   contacts.reopen(conversation)                 -> Promise<contact | null> (only if it was resolved)
+//   contacts.upsertProfile(conversation, profile_name)
+//                                                 -> Promise<void>
+//   contacts.countUnread(conversation, timestamp) -> Promise<void>
+//   contacts.markRead(conversation, marker)       -> Promise<boolean> (false when unknown)
+//   conversations.list(request)                   -> Promise<page>
+//   assignPhoneNumber(phone_number_id)            -> Promise<void>
+//   persist()                                     -> Promise<void> (writes out changes made to
+//                                                    the file backend's other collections)
+//
+// A conversation is `{ phone_number_id, wa_id }`: one customer talking to
+// one of our business numbers. Reads always return copies; changing one
+// never changes what is stored.
+
+// Two sends of the same client message raced; the other one was stored
+export class DuplicateClientIdError extends Error {
+  constructor(clientId) {
+    super(`A message with client_id ${clientId} is already stored`);
+    this.name = 'DuplicateClientIdError';
+    this.clientId = clientId;
+  }
+}
+
+const byWhatsAppId = (wamid) => ({ $or: [{ id: wamid }, { meta_msg_id: wamid }] });
+const conversationQuery = ({ phone_number_id, wa_id }) => ({ phone_number_id, wa_id });
+const inConversation = ({ phone_number_id, wa_id }) => (doc) =>
+  doc.phone_number_id === phone_number_id && doc.wa_id === wa_id;
+// Outbound messages stored before agent accounts existed have `from: 'me'`
+// instead of a direction
+const inboundQuery = (conversation) => ({
+  ...conversationQuery(conversation),
+  direction: { $ne: 'outbound' },
+  from: { $ne: 'me' },
+  type: { $ne: 'reaction' }
+});
+const isInbound = (message) => message.direction !== 'outbound' && message.from !== 'me';
+
+// The indexes the Mongo repository relies on; created before it is used
+export const createMongoIndexes = async (db) => {
+  const messagesCollection = db.collection('processed_messages');
+
+  // Conversation history is paged by (phone_number_id, wa_id, timestamp)
+  // with _id as tie-breaker
+  await messagesCollection.createIndex({ phone_number_id: 1, wa_id: 1, timestamp: -1, _id: -1 });
+  await db.collection('contacts').createIndex({ phone_number_id: 1, wa_id: 1 });
+  // Campaign counts are worked out from the campaign's messages
+  await messagesCollection.createIndex({ 'campaign.id': 1 }, { sparse: true });
+  // Resent messages are recognised by the id the client gave them; the
+  // index is unique so two racing sends can't both be stored. Earlier
+  // versions created it without `unique`, which has to be dropped first.
+  const existingIndexes = await messagesCollection.listIndexes().toArray().catch(() => []);
+  if (existingIndexes.some(index => index.name === 'client_id_1' && !index.unique)) {
+    await messagesCollection.dropIndex('client_id_1');
+  }
+  await messagesCollection.createIndex({ client_id: 1 }, { unique: true, sparse: true });
+  // Chats mix languages, so no stemming or stop words in the search index
+  await messagesCollection.createIndex(
+    Object.fromEntries(SEARCH_FIELDS.map(field => [field, 'text'])),
+    { name: 'message_search', default_language: 'none' }
+  );
+};
+
+export const createMongoRepository = (db) => {
+  const messagesCollection = db.collection('processed_messages');
+  const contactsCollection = db.collection('contacts');
+
+  const messages = {
+    // The unique client_id index decides which of two racing sends wins
+    insert: async (message) => {
+      try {
+        await messagesCollection.insertOne({ ...message });
+      } catch (error) {
+        if (error.code === 11000 && error.keyPattern?.client_id) {
+          throw new DuplicateClientIdError(message.client_id);
+        }
+        throw error;
+      }
+    },
+
+    upsertByWhatsAppId: async ({ _id, ...fields }) => {
+      const result = await messagesCollection.updateOne(
+        { id: fields.id },
+        { $set: fields, $setOnInsert: { _id } },
+        { upsert: true }
+      );
+      return result.upsertedCount > 0;
+    },
+
+    findById: (_id) => messagesCollection.findOne({ _id }),
+
+    findByWhatsAppId: (wamid) => messagesCollection.findOne(byWhatsAppId(wamid)),
+
+    findByClientId: (client_id) => messagesCollection.findOne({ client_id }),
+
+    update: async (_id, changes) => {
+      await messagesCollection.updateOne({ _id }, { $set: changes });
+    },
+
+    // The timeline entry is always recorded; `status` itself only moves
+    // forward, enforced by the update filter so concurrent writers agree
+    recordStatus: async (wamid, { status, timestamp, errors }) => {
+      const timelineUpdate = { [`status_timestamps.${status}`]: timestamp };
+      if (errors) {
+        timelineUpdate.errors = errors;
+      }
+
+      const result = await messagesCollection.updateOne(byWhatsAppId(wamid), { $set: timelineUpdate });
+      if (result.matchedCount === 0) {
+        return null;
+      }
+
+      await messagesCollection.updateOne(
+        { ...byWhatsAppId(wamid), status: { $nin: blockedStatusesFor(status) } },
+        { $set: { status, status_timestamp: timestamp } }
+      );
+      return messagesCollection.findOne(byWhatsAppId(wamid));
+    },
+
+    // Updates one member's entry in a group message's `deliveries`
+    recordDelivery: (_id, wa_id, changes) => messagesCollection.findOneAndUpdate(
+      { _id, 'deliveries.wa_id': wa_id },
+      { $set: Object.fromEntries(Object.entries(changes).map(([key, value]) => [`deliveries.$.${key}`, value])) },
+      { returnDocument: 'after' }
+    ),
+
+    findByCampaign: (campaign_id) => messagesCollection.find({ 'campaign.id': campaign_id }).toArray(),
+
+    // Messages that are only stored (demo mode) count as `stored`
+    countCampaignStatuses: async (campaign_id) => {
+      const rows = await messagesCollection.aggregate([
+        { $match: { 'campaign.id': campaign_id } },
+        { $group: { _id: { $ifNull: ['$status', 'stored'] }, count: { $sum: 1 } } }
+      ]).toArray();
+      return Object.fromEntries(rows.map(row => [row._id, row.count]));
+    },
+
+    page: async (conversation, pageRequest) => {
+      const order = pageRequest.direction === 'before' ? -1 : 1;
+      const rows = await messagesCollection
+        .find({ ...conversationQuery(conversation), ...cursorFilter(pageRequest) })
+        .sort({ timestamp: order, _id: order })
+        .limit(pageRequest.limit + 1)
+        .toArray();
+      return toPage(rows, pageRequest);
+    },
+
+    latestInbound: (conversation) => messagesCollection
+      .find(inboundQuery(conversation))
+      .sort({ timestamp: -1, _id: -1 })
+      .limit(1)
+      .next(),
+
+    search: (request) => messagesCollection
+      .find(textSearchQuery(request))
+      .sort({ timestamp: -1, _id: -1 })
+      .limit(request.limit + 1)
+      .toArray()
+  };
+
+  const contacts = {
+    list: () => contactsCollection.find({}).toArray(),
+
+    find: (conversation) => contactsCollection.findOne(conversationQuery(conversation)),
+
+    update: (conversation, changes) => contactsCollection.findOneAndUpdate(
+      conversationQuery(conversation),
+      { $set: { ...changes, updated_at: new Date() } },
+      { returnDocument: 'after' }
+    ),
+
+    reopen: (conversation) => contactsCollection.findOneAndUpdate(
+      { ...conversationQuery(conversation), state: 'resolved' },
+      { $set: { state: 'open', updated_at: new Date() } },
+      { returnDocument: 'after' }
+    ),
+
+    upsertProfile: async (conversation, profile_name) => {
+      await contactsCollection.updateOne(
+        conversationQuery(conversation),
+        {
+          $set: { profile_name, ...conversationQuery(conversation), updated_at: new Date() },
+          $setOnInsert: { unreadCount: 0 }
+        },
+        { upsert: true }
+      );
+    },
+
+    // Messages at or before the read marker (late redeliveries) don't count
+    countUnread: async (conversation, timestamp) => {
+      await contactsCollection.updateOne(
+        {
+          ...conversationQuery(conversation),
+          $or: [
+            { last_read_at: { $exists: false } },
+            { last_read_at: { $lt: timestamp } }
+          ]
+        },
+        { $inc: { unreadCount: 1 } }
+      );
+    },
+
+    markRead: async (conversation, marker) => {
+      const result = await contactsCollection.updateOne(conversationQuery(conversation), { $set: marker });
+      return result.matchedCount > 0;
+    }
+  };
+
+  const conversations = {
+    list: (request) => listConversations(db, request)
+  };
+
+  // Data stored before multiple numbers were supported belongs to the
+  // default number
+  const assignPhoneNumber = async (phone_number_id) => {
+    const missing = { phone_number_id: { $exists: false } };
+    await messagesCollection.updateMany(missing, { $set: { phone_number_id } });
+    await contactsCollection.updateMany(missing, { $set: { phone_number_id } });
+  };
+
+  return { kind: 'mongo', messages, contacts, conversations, assignPhoneNumber, persist: async () => { } };
+};
+
+// Keeps everything in the given arrays. `onChange` runs after every write and
+// is awaited, which is how the file backend persists before a call resolves.
+export const createMemoryRepository = ({
+  messages: messagesStore = [],
+  contacts: contactsStore = [],
+  onChange = async () => { },
+  kind = 'memory'
+} = {}) => {
+  const copy = (value) => (value ? structuredClone(value) : null);
+  const findMessage = (wamid) => messagesStore.find(msg => msg.id === wamid || msg.meta_msg_id === wamid);
+
+  const messages = {
+    insert: async (message) => {
+      if (message.client_id && messagesStore.some(msg => msg.client_id === message.client_id)) {
+        throw new DuplicateClientIdError(message.client_id);
+      }
+      messagesStore.push(structuredClone(message));
+      await onChange();
+    },
+
+    upsertByWhatsAppId: async (message) => {
+      const { _id, ...fields } = message;
+      const existing = messagesStore.find(msg => msg.id === message.id);
+
+      if (existing) {
+        Object.assign(existing, structuredClone(fields));
+      } else {
+        messagesStore.push(structuredClone(message));
+      }
+      await onChange();
+      return !existing;
+    },
+
+    findById: async (_id) => copy(messagesStore.find(msg => msg._id === _id)),
+
+    findByWhatsAppId: async (wamid) => copy(findMessage(wamid)),
+
+    findByClientId: async (client_id) => copy(messagesStore.find(msg => msg.client_id === client_id)),
+
+    update: async (_id, changes) => {
+      const message = messagesStore.find(msg => msg._id === _id);
+      if (message) {
+        Object.assign(message, structuredClone(changes));
+        await onChange();
+      }
+    },
+
+    recordStatus: async (wamid, { status, timestamp, errors }) => {
+      const message = findMessage(wamid);
+      if (!message) {
+        return null;
+      }
+
+      message.status_timestamps = { ...message.status_timestamps, [status]: timestamp };
+      if (errors) {
+        message.errors = errors;
+      }
+      if (canAdvanceStatus(message.status, status)) {
+        message.status = status;
+        message.status_timestamp = timestamp;
+      }
+      await onChange();
+      return copy(message);
+    },
+
+    recordDelivery: async (_id, wa_id, changes) => {
+      const message = messagesStore.find(msg => msg._id === _id);
+      const delivery = message?.deliveries?.find(entry => entry.wa_id === wa_id);
+      if (!delivery) {
+        return null;
+      }
+
+      Object.assign(delivery, structuredClone(changes));
+      await onChange();
+      return copy(message);
+    },
+
+    findByCampaign: async (campaign_id) => copy(messagesStore.filter(msg => msg.campaign?.id === campaign_id)),
+
+    countCampaignStatuses: async (campaign_id) => {
+      const counts = {};
+      for (const msg of messagesStore) {
+        if (msg.campaign?.id !== campaign_id) continue;
+        const status = msg.status || 'stored';
+        counts[status] = (counts[status] || 0) + 1;
+      }
+      return counts;
+    },
+
+    page: async (conversation, pageRequest) =>
+      copy(paginateInMemory(messagesStore.filter(inConversation(conversation)), pageRequest)),
+
+    latestInbound: async (conversation) => copy(messagesStore
+      .filter(msg => inConversation(conversation)(msg) && isInbound(msg) && msg.type !== 'reaction')
+      .sort(compareMessages)
+      .pop()),
+
+    search: async (request) => copy(messagesStore
+      .filter(msg => matchesSearch(msg, request))
+      .sort((a, b) => compareMessages(b, a))
+      .slice(0, request.limit + 1))
+  };
+
+  const contacts = {
+    list: async () => copy(contactsStore),
+
+    find: async (conversation) => copy(contactsStore.find(inConversation(conversation))),
+
+    update: async (conversation, changes) => {
+      const contact = contactsStore.find(inConversation(conversation));
+      if (!contact) {
+        return null;
+      }
+      Object.assign(contact, structuredClone(changes), { updated_at: new Date() });
+      await onChange();
+      return copy(contact);
+    },
+
+    reopen: async (conversation) => {
+      const contact = contactsStore.find(inConversation(conversation));
+      if (contact?.state !== 'resolved') {
+        return null;
+      }
+      Object.assign(contact, { state: 'open', updated_at: new Date() });
+      await onChange();
+      return copy(contact);
+    },
+
+    upsertProfile: async (conversation, profile_name) => {
+      const existing = contactsStore.find(inConversation(conversation));
+      if (existing) {
+        existing.profile_name = profile_name;
+        existing.updated_at = new Date();
+      } else {
+        contactsStore.push({ ...conversationQuery(conversation), profile_name, unreadCount: 0, updated_at: new Date() });
+      }
+      await onChange();
+    },
+
+    countUnread: async (conversation, timestamp) => {
+      const contact = contactsStore.find(inConversation(conversation));
+      if (contact && !(contact.last_read_at >= timestamp)) {
+        contact.unreadCount = (contact.unreadCount || 0) + 1;
+        await onChange();
+      }
+    },
+
+    markRead: async (conversation, marker) => {
+      const contact = contactsStore.find(inConversation(conversation));
+      if (!contact) {
+        return false;
+      }
+      Object.assign(contact, marker);
+      await onChange();
+      return true;
+    }
+  };
+
+  const conversations = {
+    list: async (request) => copy(listConversationsInMemory(contactsStore, messagesStore, request))
+  };
+
+  const assignPhoneNumber = async (phone_number_id) => {
+    const missing = [...messagesStore, ...contactsStore].filter(doc => doc.phone_number_id === undefined);
+    if (missing.length > 0) {
+      missing.forEach(doc => { doc.phone_number_id = phone_number_id; });
+      await onChange();
+    }
+  };
+
+  return { kind, messages, contacts, conversations, assignPhoneNumber, persist: onChange };
+};
+
+// Dates are stored as ISO strings; fields named `*_at` come back as Dates
+const ISO_DATE = /^\d{4}-\d{2}-\d{2}T\d{2}:\d{2}:\d{2}(\.\d+)?Z$/;
+const reviveDates = (key, value) =>
+  (key.endsWith('_at') && typeof value === 'string' && ISO_DATE.test(value) ? new Date(value) : value);
+
+// The other stores' collections the file backend keeps, by collection name
+export const FILE_COLLECTIONS = [
+  'accounts',
+  'agents',
+  'blocked_contacts',
+  'broadcast_lists',
+  'campaigns',
+  'groups',
+  'media',
+  'outbound_queue',
+  'reports',
+  'starred_messages',
+  'templates',
+  'webhook_journal'
+];
+
+// Embedded single-node storage: the in-memory repository, snapshotted to one
+// JSON file after every write so data survives restarts without MongoDB.
+// `seed` is only used when the file doesn't exist yet.
+//
+// `collections` are the in-memory arrays of other stores, named as in
+// FILE_COLLECTIONS. They go into the same snapshot: they are filled from the
+// file in place, and every store factory takes an `onChange` hook (a no-op
+// by default) that it awaits after changing its array; the server points
+// those hooks at `persist()`.
+export const createFileRepository = async ({ filePath, seed = {}, collections = {} }) => {
+  let data;
+  try {
+    data = JSON.parse(await fs.promises.readFile(filePath, 'utf8'), reviveDates);
+  } catch (error) {
+    if (error.code !== 'ENOENT') {
+      throw error;
+    }
+    data = { messages: seed.messages || [], contacts: seed.contacts || [] };
+  }
+
+  const unknown = Object.keys(collections).filter(name => !FILE_COLLECTIONS.includes(name));
+  if (unknown.length > 0) {
+    throw new Error(`Unknown file storage collections: ${unknown.join(', ')}`);
+  }
+
+  for (const [name, store] of Object.entries(collections)) {
+    store.length = 0;
+    (data[name] || []).forEach(doc => store.push(doc));
+    data[name] = store;
+  }
+
+  // Writes go to a temp file first so a crash never leaves half a snapshot.
+  // Changes made while a write is running are picked up by one more write.
+  let saving = null;
+  let dirty = false;
+
+  const writeSnapshot = async () => {
+    await fs.promises.mkdir(path.dirname(filePath), { recursive: true });
+    const tempPath = `${filePath}.tmp`;
+    await fs.promises.writeFile(tempPath, JSON.stringify(data));
+    await fs.promises.rename(tempPath, filePath);
+  };
+
+  const persist = () => {
+    dirty = true;
+    if (!saving) {
+      saving = (async () => {
+        try {
+          while (dirty) {
+            dirty = false;
+            await writeSnapshot();
+          }
+        } finally {
+          saving = null;
+        }
+      })();
+    }
+    return saving;
+  };
+
+  return createMemoryRepository({
+    messages: data.messages,
+    contacts: data.contacts,
+    onChange: persist,
+    kind: 'file'
+  });
+};
@@ -0,0 +1,496 @@
+import assert from 'node:assert/strict';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { after, afterEach, before, beforeEach, describe, it } from 'node:test';
+import { MongoClient } from 'mongodb';
+import { createAccountRegistry } from './accounts.js';
+import { createAgentStore } from './auth.js';
+import { createBlockList } from './blocklist.js';
+import { createBroadcastStore } from './broadcasts.js';
+import { parseConversationRequest } from './conversations.js';
+import { createGroupStore } from './groups.js';
+import { createOutboundQueue } from './outbound-queue.js';
+import { parsePageRequest } from './pagination.js';
+import { createReportStore } from './reports.js';
+import {
+  createFileRepository,
+  createMemoryRepository,
+  createMongoIndexes,
+  createMongoRepository,
+  DuplicateClientIdError,
+  FILE_COLLECTIONS
+} from './repository.js';
+import { parseSearchRequest } from './search.js';
+import { createStarStore } from './stars.js';
+import { createWebhookJournal } from './webhook-journal.js';
+
+// One contract, run against every storage backend. MongoDB is only tested
+// when MONGODB_TEST_URI points at a server; each test gets a database of its
+// own there, which is dropped afterwards.
+
+const BUSINESS = '111';
+const OTHER_BUSINESS = '222';
+
+const conversationWith = (wa_id, phone_number_id = BUSINESS) => ({ phone_number_id, wa_id });
+
+const inbound = (n, overrides = {}) => ({
+  _id: `msg_${String(n).padStart(3, '0')}`,
+  id: `wamid.${n}`,
+  ...conversationWith('15550001111'),
+  from: '15550001111',
+  type: 'text',
+  text: { body: `message ${n}` },
+  timestamp: n * 1000,
+  ...overrides
+});
+
+const backends = {
+  memory: {
+    open: async () => createMemoryRepository(),
+    close: async () => { }
+  },
+
+  file: (() => {
+    let dir;
+    return {
+      open: async () => {
+        dir = await fs.promises.mkdtemp(path.join(os.tmpdir(), 'repository-contract-'));
+        return createFileRepository({ filePath: path.join(dir, 'whatsapp.json') });
+      },
+      close: () => fs.promises.rm(dir, { recursive: true, force: true })
+    };
+  })(),
+
+  mongo: (() => {
+    let client;
+    let db;
+    let count = 0;
+    return {
+      skip: !process.env.MONGODB_TEST_URI && 'MONGODB_TEST_URI is not set',
+      connect: async () => {
+        client = new MongoClient(process.env.MONGODB_TEST_URI);
+        await client.connect();
+      },
+      disconnect: () => client?.close(),
+      open: async () => {
+        db = client.db(`repository_contract_${process.pid}_${count++}`);
+        await createMongoIndexes(db);
+        return createMongoRepository(db);
+      },
+      close: () => db.dropDatabase()
+    };
+  })()
+};
+
+for (const [name, backend] of Object.entries(backends)) {
+  describe(`${name} repository`, { skip: backend.skip }, () => {
+    let repository;
+
+    before(async () => backend.connect?.());
+    after(async () => backend.disconnect?.());
+    beforeEach(async () => {
+      repository = await backend.open();
+    });
+    afterEach(async () => backend.close());
+
+    describe('messages.upsertByWhatsAppId', () => {
+      it('stores a redelivered message once, keeping its first _id', async () => {
+        assert.equal(await repository.messages.upsertByWhatsAppId(inbound(1)), true);
+        assert.equal(
+          await repository.messages.upsertByWhatsAppId(inbound(1, { _id: 'msg_other', text: { body: 'edited' } })),
+          false
+        );
+
+        const { messages } = await repository.messages.page(conversationWith('15550001111'), parsePageRequest({}));
+        assert.equal(messages.length, 1);
+        assert.equal(messages[0]._id, 'msg_001');
+        assert.equal(messages[0].text.body, 'edited');
+      });
+    });
+
+    describe('messages.insert and messages.findByClientId', () => {
+      it('stores one message per client_id', async () => {
+        await repository.messages.insert(inbound(1, { client_id: 'client_1' }));
+        await assert.rejects(
+          repository.messages.insert(inbound(2, { client_id: 'client_1' })),
+          error => error instanceof DuplicateClientIdError && error.clientId === 'client_1'
+        );
+
+        assert.equal((await repository.messages.findByClientId('client_1'))._id, 'msg_001');
+        assert.equal(await repository.messages.findById('msg_002'), null);
+        assert.equal(await repository.messages.findByClientId('client_2'), null);
+      });
+
+      it('stores any number of messages without a client_id', async () => {
+        await repository.messages.insert(inbound(1));
+        await repository.messages.insert(inbound(2));
+
+        assert.equal((await repository.messages.findById('msg_002')).text.body, 'message 2');
+      });
+    });
+
+    describe('messages.recordStatus', () => {
+      beforeEach(async () => {
+        await repository.messages.insert(inbound(1, { direction: 'outbound', from: BUSINESS, status: 'sent' }));
+      });
+
+      it('moves the status forward and records every step in the timeline', async () => {
+        await repository.messages.recordStatus('wamid.1', { status: 'delivered', timestamp: 2 });
+        const message = await repository.messages.recordStatus('wamid.1', { status: 'read', timestamp: 3 });
+
+        assert.equal(message.status, 'read');
+        assert.equal(message.status_timestamp, 3);
+        assert.deepEqual(message.status_timestamps, { delivered: 2, read: 3 });
+      });
+
+      it('keeps a late delivered from undoing read', async () => {
+        await repository.messages.recordStatus('wamid.1', { status: 'read', timestamp: 3 });
+        const message = await repository.messages.recordStatus('wamid.1', { status: 'delivered', timestamp: 2 });
+
+        assert.equal(message.status, 'read');
+        assert.equal(message.status_timestamp, 3);
+        assert.equal(message.status_timestamps.delivered, 2);
+      });
+
+      it('only lets failed replace a status before delivered', async () => {
+        await repository.messages.recordStatus('wamid.1', { status: 'delivered', timestamp: 2 });
+        const errors = [{ code: 131026, title: 'Message undeliverable' }];
+        const message = await repository.messages.recordStatus('wamid.1', { status: 'failed', timestamp: 3, errors });
+
+        assert.equal(message.status, 'delivered');
+        assert.deepEqual(message.errors, errors);
+      });
+
+      it('resolves to null for an unknown message', async () => {
+        assert.equal(await repository.messages.recordStatus('wamid.unknown', { status: 'read', timestamp: 3 }), null);
+      });
+    });
+
+    describe('messages.recordDelivery', () => {
+      beforeEach(async () => {
+        await repository.messages.insert(inbound(1, {
+          wa_id: 'group_1',
+          direction: 'outbound',
+          deliveries: [
+            { wa_id: '15550001111', message_id: 'msg_copy_1', status: 'pending' },
+            { wa_id: '15550002222', message_id: 'msg_copy_2', status: 'pending' }
+          ]
+        }));
+      });
+
+      it('updates the one member\'s entry', async () => {
+        const message = await repository.messages.recordDelivery('msg_001', '15550002222', { status: 'sent', errors: null });
+
+        assert.deepEqual(message.deliveries, [
+          { wa_id: '15550001111', message_id: 'msg_copy_1', status: 'pending' },
+          { wa_id: '15550002222', message_id: 'msg_copy_2', status: 'sent', errors: null }
+        ]);
+        assert.deepEqual((await repository.messages.findById('msg_001')).deliveries, message.deliveries);
+      });
+
+      it('resolves to null for an unknown message or member', async () => {
+        assert.equal(await repository.messages.recordDelivery('msg_unknown', '15550001111', { status: 'sent' }), null);
+        assert.equal(await repository.messages.recordDelivery('msg_001', '15559999999', { status: 'sent' }), null);
+      });
+    });
+
+    describe('messages.countCampaignStatuses', () => {
+      it('counts the campaign\'s messages by status, stored-only ones as stored', async () => {
+        const campaign = { id: 'campaign_1', name: 'Sale' };
+        await repository.messages.insert(inbound(1, { campaign, status: 'sent' }));
+        await repository.messages.insert(inbound(2, { campaign, status: 'sent' }));
+        await repository.messages.insert(inbound(3, { campaign, status: 'read' }));
+        await repository.messages.insert(inbound(4, { campaign }));
+        await repository.messages.insert(inbound(5, { campaign: { id: 'campaign_2', name: 'Other' }, status: 'failed' }));
+
+        assert.deepEqual(await repository.messages.countCampaignStatuses('campaign_1'), { sent: 2, read: 1, stored: 1 });
+        assert.deepEqual(await repository.messages.countCampaignStatuses('campaign_3'), {});
+      });
+    });
+
+    describe('messages.latestInbound', () => {
+      const conversation = conversationWith('15550001111');
+
+      it('skips outbound messages, legacy own messages and reactions', async () => {
+        await repository.messages.insert(inbound(1));
+        await repository.messages.insert(inbound(2));
+        await repository.messages.insert(inbound(3, { direction: 'outbound', from: BUSINESS }));
+        await repository.messages.insert(inbound(4, { from: 'me' }));
+        await repository.messages.insert(inbound(5, { type: 'reaction', reaction: { message_id: 'wamid.1', emoji: '👍' } }));
+        await repository.messages.insert(inbound(6, conversationWith('15550002222')));
+
+        assert.equal((await repository.messages.latestInbound(conversation))._id, 'msg_002');
+      });
+
+      it('resolves to null without inbound messages', async () => {
+        assert.equal(await repository.messages.latestInbound(conversation), null);
+      });
+    });
+
+    describe('messages.search', () => {
+      const search = async (query) => {
+        const results = await repository.messages.search(parseSearchRequest(query, BUSINESS));
+        return results.map(message => message._id);
+      };
+
+      beforeEach(async () => {
+        await repository.messages.insert(inbound(1, { text: { body: 'Hello world' } }));
+        await repository.messages.insert(inbound(2, { text: { body: 'Café au lait' } }));
+        await repository.messages.insert(inbound(3, { text: { body: 'See you tomorrow' } }));
+        await repository.messages.insert(inbound(4, { type: 'image', image: { caption: 'hello from the beach' } }));
+        await repository.messages.insert(inbound(5, { ...conversationWith('15550001111', OTHER_BUSINESS), text: { body: 'hello' } }));
+      });
+
+      it('finds whole words in any searchable field, newest first', async () => {
+        assert.deepEqual(await search({ q: 'hello' }), ['msg_004', 'msg_001']);
+        assert.deepEqual(await search({ q: 'HELLO' }), ['msg_004', 'msg_001']);
+      });
+
+      it('does not match part of a word', async () => {
+        assert.deepEqual(await search({ q: 'hel' }), []);
+        assert.deepEqual(await search({ q: 'tomorrows' }), []);
+      });
+
+      it('ignores accents', async () => {
+        assert.deepEqual(await search({ q: 'cafe' }), ['msg_002']);
+      });
+
+      it('requires every term', async () => {
+        assert.deepEqual(await search({ q: 'hello world' }), ['msg_001']);
+        assert.deepEqual(await search({ q: 'hello tomorrow' }), []);
+      });
+
+      it('applies the type and time filters', async () => {
+        assert.deepEqual(await search({ q: 'hello', type: 'image' }), ['msg_004']);
+        assert.deepEqual(await search({ q: 'hello', until: '1000' }), ['msg_001']);
+      });
+    });
+
+    describe('messages.page', () => {
+      const conversation = conversationWith('15550001111');
+      const bodies = (page) => page.messages.map(message => message.text.body);
+
+      beforeEach(async () => {
+        for (const n of [1, 2, 3, 4]) {
+          await repository.messages.insert(inbound(n));
+        }
+        // Same timestamp as message 4: the _id breaks the tie
+        await repository.messages.insert(inbound(5, { timestamp: 4000 }));
+        await repository.messages.insert(inbound(6, conversationWith('15550002222')));
+      });
+
+      it('returns the latest messages oldest first', async () => {
+        const page = await repository.messages.page(conversation, parsePageRequest({ limit: 2 }));
+
+        assert.deepEqual(bodies(page), ['message 4', 'message 5']);
+        assert.equal(page.has_more_before, true);
+        assert.equal(page.has_more_after, false);
+      });
+
+      it('walks back with before and forward with after', async () => {
+        const latest = await repository.messages.page(conversation, parsePageRequest({ limit: 2 }));
+        const older = await repository.messages.page(conversation, parsePageRequest({ before: latest.before, limit: 2 }));
+        const oldest = await repository.messages.page(conversation, parsePageRequest({ before: older.before, limit: 2 }));
+
+        assert.deepEqual(bodies(older), ['message 2', 'message 3']);
+        assert.equal(older.has_more_before, true);
+        assert.equal(older.has_more_after, true);
+        assert.deepEqual(bodies(oldest), ['message 1']);
+        assert.equal(oldest.has_more_before, false);
+
+        const newer = await repository.messages.page(conversation, parsePageRequest({ after: older.after, limit: 2 }));
+        assert.deepEqual(bodies(newer), ['message 4', 'message 5']);
+        assert.equal(newer.has_more_after, false);
+      });
+    });
+
+    describe('conversations.list', () => {
+      const agent = { id: 'agent_1', name: 'Ann' };
+      const list = async (view, phoneNumberId = BUSINESS) => {
+        const page = await repository.conversations.list(parseConversationRequest({ view }, agent.id, phoneNumberId));
+        return page.conversations.map(conversation => conversation.wa_id);
+      };
+
+      beforeEach(async () => {
+        const contacts = [
+          ['15550001111', { assignee: agent }],
+          ['15550002222', { state: 'pending', assignee: { id: 'agent_2', name: 'Bob' } }],
+          ['15550003333', {}],
+          ['15550004444', { state: 'resolved', assignee: agent }]
+        ];
+        for (const [index, [wa_id, changes]] of contacts.entries()) {
+          const conversation = conversationWith(wa_id);
+          await repository.contacts.upsertProfile(conversation, wa_id);
+          await repository.contacts.update(conversation, changes);
+          await repository.messages.insert(inbound(index + 1, { ...conversation, from: wa_id }));
+        }
+        await repository.contacts.upsertProfile(conversationWith('15550005555', OTHER_BUSINESS), 'Elsewhere');
+      });
+
+      it('lists the number\'s conversations, most recently active first', async () => {
+        assert.deepEqual(await list(), ['15550004444', '15550003333', '15550002222', '15550001111']);
+        assert.deepEqual(await list(undefined, OTHER_BUSINESS), ['15550005555']);
+      });
+
+      it('filters by inbox view', async () => {
+        assert.deepEqual(await list('mine'), ['15550001111']);
+        assert.deepEqual(await list('unassigned'), ['15550003333']);
+        assert.deepEqual(await list('all'), ['15550003333', '15550002222', '15550001111']);
+        assert.deepEqual(await list('resolved'), ['15550004444']);
+      });
+
+      it('pages with the before cursor', async () => {
+        const first = await repository.conversations.list(parseConversationRequest({ limit: 3 }, agent.id, BUSINESS));
+        const second = await repository.conversations.list(
+          parseConversationRequest({ before: first.before, limit: 3 }, agent.id, BUSINESS)
+        );
+
+        assert.equal(first.has_more, true);
+        assert.deepEqual(second.conversations.map(conversation => conversation.wa_id), ['15550001111']);
+        assert.equal(second.has_more, false);
+      });
+    });
+
+    describe('contacts.reopen', () => {
+      const conversation = conversationWith('15550001111');
+
+      beforeEach(async () => {
+        await repository.contacts.upsertProfile(conversation, 'Alice');
+      });
+
+      it('reopens a resolved conversation', async () => {
+        await repository.contacts.update(conversation, { state: 'resolved' });
+
+        assert.equal((await repository.contacts.reopen(conversation)).state, 'open');
+        assert.equal((await repository.contacts.find(conversation)).state, 'open');
+      });
+
+      it('leaves conversations that aren\'t resolved alone', async () => {
+        assert.equal(await repository.contacts.reopen(conversation), null);
+        await repository.contacts.update(conversation, { state: 'pending' });
+        assert.equal(await repository.contacts.reopen(conversation), null);
+        assert.equal((await repository.contacts.find(conversation)).state, 'pending');
+      });
+    });
+
+    describe('contacts.countUnread and contacts.markRead', () => {
+      const conversation = conversationWith('15550001111');
+      const unreadCount = async () => (await repository.contacts.find(conversation)).unreadCount;
+
+      beforeEach(async () => {
+        await repository.contacts.upsertProfile(conversation, 'Alice');
+      });
+
+      it('counts messages until the conversation is read', async () => {
+        await repository.contacts.countUnread(conversation, 1000);
+        await repository.contacts.countUnread(conversation, 2000);
+        assert.equal(await unreadCount(), 2);
+
+        const marker = { unreadCount: 0, last_read_at: 2000, last_read_message_id: 'msg_002' };
+        assert.equal(await repository.contacts.markRead(conversation, marker), true);
+        assert.equal(await unreadCount(), 0);
+      });
+
+      it('ignores messages at or before the read marker', async () => {
+        await repository.contacts.markRead(conversation, { unreadCount: 0, last_read_at: 2000 });
+        await repository.contacts.countUnread(conversation, 1500);
+        await repository.contacts.countUnread(conversation, 2000);
+        assert.equal(await unreadCount(), 0);
+
+        await repository.contacts.countUnread(conversation, 3000);
+        assert.equal(await unreadCount(), 1);
+      });
+
+      it('reports an unknown conversation', async () => {
+        assert.equal(await repository.contacts.markRead(conversationWith('15559999999'), { unreadCount: 0 }), false);
+      });
+    });
+  });
+}
+
+describe('file repository snapshot', () => {
+  const agent = { id: 'agent_1', name: 'Ann' };
+  let dir;
+  let filePath;
+
+  const open = async () => {
+    const collections = Object.fromEntries(FILE_COLLECTIONS.map(name => [name, []]));
+    const repository = await createFileRepository({ filePath, collections });
+    return { repository, collections };
+  };
+
+  beforeEach(async () => {
+    dir = await fs.promises.mkdtemp(path.join(os.tmpdir(), 'repository-snapshot-'));
+    filePath = path.join(dir, 'whatsapp.json');
+  });
+  afterEach(() => fs.promises.rm(dir, { recursive: true, force: true }));
+
+  it('writes every collection when its store changes it, and reloads them with their dates', async () => {
+    const { repository, collections } = await open();
+    const stores = { getDb: () => null, onChange: () => repository.persist() };
+    const snapshot = async () => JSON.parse(await fs.promises.readFile(filePath, 'utf8'));
+
+    await repository.messages.insert(inbound(1));
+    await repository.contacts.upsertProfile(conversationWith('15550001111'), 'Alice');
+
+    const broadcasts = createBroadcastStore({
+      ...stores,
+      listsStore: collections.broadcast_lists,
+      campaignsStore: collections.campaigns
+    });
+    const writes = {
+      accounts: () => createAccountRegistry({ ...stores, accountsStore: collections.accounts })
+        .register({ phone_number_id: '555', access_token: 'token' }),
+      agents: () => createAgentStore({ ...stores, agentsStore: collections.agents })
+        .create({ email: 'bob@example.com', password: 'password1' }),
+      blocked_contacts: () => createBlockList({ ...stores, blockedStore: collections.blocked_contacts })
+        .block(conversationWith('15550001111'), 'Alice', agent),
+      broadcast_lists: () => broadcasts.lists.create(
+        { phone_number_id: BUSINESS, name: 'Customers', recipients: [{ wa_id: '15550001111', profile_name: 'Alice' }] },
+        agent
+      ),
+      campaigns: () => broadcasts.campaigns.create(
+        { list: collections.broadcast_lists[0], message: { type: 'text', text: { body: 'Hi' } } },
+        agent
+      ),
+      groups: () => createGroupStore({ ...stores, getRepository: () => repository, groupsStore: collections.groups })
+        .create({ phone_number_id: BUSINESS, name: 'Team', members: ['15550001111'] }, agent),
+      // Media and templates are stored by the routes themselves
+      media: async () => {
+        collections.media.push({ _id: 'media_1', created_at: new Date(5000) });
+        await repository.persist();
+      },
+      outbound_queue: () => createOutboundQueue({ ...stores, getRepository: () => repository, queueStore: collections.outbound_queue })
+        .enqueue(inbound(1)),
+      reports: () => createReportStore({ ...stores, reportsStore: collections.reports })
+        .create({ ...conversationWith('15550001111'), profile_name: 'Alice', reason: 'spam', recent_messages: [] }, agent),
+      starred_messages: () => createStarStore({ ...stores, starsStore: collections.starred_messages })
+        .star(agent.id, 'msg_001'),
+      templates: async () => {
+        collections.templates.push({ _id: 'tpl_1', created_at: new Date(5000) });
+        await repository.persist();
+      },
+      webhook_journal: () => createWebhookJournal({ ...stores, journalStore: collections.webhook_journal, log: () => { } })
+        .ingest({ entry: [] }, { processPayload: async () => ({ processed: 0 }) })
+    };
+    assert.deepEqual(Object.keys(writes).sort(), [...FILE_COLLECTIONS].sort());
+
+    for (const [name, write] of Object.entries(writes)) {
+      await write();
+      assert.equal((await snapshot())[name]?.length, 1, `${name} was not written`);
+    }
+
+    const { repository: reloaded, collections: reloadedCollections } = await open();
+    assert.equal((await reloaded.messages.findById('msg_001')).text.body, 'message 1');
+    assert.equal((await reloaded.contacts.find(conversationWith('15550001111'))).profile_name, 'Alice');
+    for (const name of FILE_COLLECTIONS) {
+      assert.deepEqual(reloadedCollections[name].map(doc => doc._id), collections[name].map(doc => doc._id));
+    }
+    assert.ok(reloadedCollections.groups[0].created_at instanceof Date);
+  });
+
+  it('rejects collections it doesn\'t know', async () => {
+    await assert.rejects(createFileRepository({ filePath, collections: { unknown: [] } }), /Unknown file storage collections/);
+  });
+});
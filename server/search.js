@@ -0,0 +1,144 @@
+import { parsePageSize } from './pagination.js';
+
+// Full-text message search. MongoDB answers it with a text index over the
+// fields below; the in-memory matcher mirrors it as "every term appears as
+// whole words in one of the fields", ignoring case and accents. Neither
+// matches part of a word: "hel" doesn't find "hello".
+
+export const SEARCH_FIELDS = [
+  'text.body',
+  'image.caption',
+  'video.caption',
+  'document.caption',
+  'document.filename',
+  'template.rendered.body'
+];
+
+const SNIPPET_BEFORE = 30;
+const SNIPPET_LENGTH = 120;
+
+export class InvalidSearchError extends Error {
+  constructor(message) {
+    super(message);
+    this.name = 'InvalidSearchError';
+  }
+}
+
+// Accepts epoch milliseconds or anything Date.parse understands
+const parseTime = (value, name) => {
+  if (value === undefined || value === '') {
+    return null;
+  }
+  const time = /^\d+$/.test(value) ? Number(value) : Date.parse(value);
+  if (Number.isNaN(time)) {
+    throw new InvalidSearchError(`${name} must be a date or a timestamp in milliseconds`);
+  }
+  return time;
+};
+
+export const parseSearchRequest = ({ q, wa_id, type, since, until, limit }, phoneNumberId) => {
+  const terms = [...new Set((q || '').toLowerCase().split(/\s+/).filter(Boolean))];
+  if (terms.length === 0) {
+    throw new InvalidSearchError('q is required');
+  }
+
+  return {
+    terms,
+    phone_number_id: phoneNumberId || null,
+    wa_id: wa_id || null,
+    type: type || null,
+    since: parseTime(since, 'since'),
+    until: parseTime(until, 'until'),
+    limit: parsePageSize(limit)
+  };
+};
+
+const fieldValue = (message, field) =>
+  field.split('.').reduce((value, key) => value?.[key], message);
+
+const searchableTexts = (message) =>
+  SEARCH_FIELDS.map(field => fieldValue(message, field)).filter(value => typeof value === 'string');
+
+// Words the way the text index splits them: on anything that isn't a letter
+// or digit, without case or accents
+const toWords = (text) => text
+  .normalize('NFD')
+  .replace(/\p{M}/gu, '')
+  .toLowerCase()
+  .split(/[^\p{L}\p{N}]+/u)
+  .filter(Boolean);
+
+// A term is matched like a quoted phrase: its words in a row, so "e-mail"
+// matches "E-Mail" and "e mail" but not "email"
+const containsPhrase = (words, phrase) =>
+  phrase.length > 0 && words.some((_, start) => phrase.every((word, offset) => words[start + offset] === word));
+
+const filterQuery = ({ phone_number_id, wa_id, type, since, until }) => ({
+  ...(phone_number_id && { phone_number_id }),
+  ...(wa_id && { wa_id }),
+  ...(type && { type }),
+  ...((since !== null || until !== null) && {
+    timestamp: {
+      ...(since !== null && { $gte: since }),
+      ...(until !== null && { $lte: until })
+    }
+  })
+});
+
+// Quoting each term makes the text index require all of them, like the
+// in-memory matcher, instead of matching any one
+export const textSearchQuery = (request) => ({
+  $text: { $search: request.terms.map(term => `"${term.replace(/"/g, '')}"`).join(' ') },
+  ...filterQuery(request)
+});
+
+export const matchesSearch = (message, { terms, phone_number_id, wa_id, type, since, until }) => {
+  if (message.type === 'reaction') return false;
+  if (phone_number_id && message.phone_number_id !== phone_number_id) return false;
+  if (wa_id && message.wa_id !== wa_id) return false;
+  if (type && message.type !== type) return false;
+  if (since !== null && message.timestamp < since) return false;
+  if (until !== null && message.timestamp > until) return false;
+
+  const texts = searchableTexts(message).map(toWords);
+  return terms.every(term => texts.some(words => containsPhrase(words, toWords(term))));
+};
+
+// A window of the first matching field around the first hit. `highlights`
+// are [start, end) offsets into the snippet text, one per term occurrence.
+export const buildSnippet = (message, terms) => {
+  const texts = searchableTexts(message);
+  const text = texts.find(value => terms.some(term => value.toLowerCase().includes(term))) || texts[0] || '';
+  const lower = text.toLowerCase();
+
+  const firstHit = Math.min(...terms.map(term => lower.indexOf(term)).filter(index => index !== -1));
+  const start = Number.isFinite(firstHit) ? Math.max(0, firstHit - SNIPPET_BEFORE) : 0;
+  const end = Math.min(text.length, start + SNIPPET_LENGTH);
+  const prefix = start > 0 ? '…' : '';
+  const window = lower.slice(start, end);
+
+  const ranges = [];
+  for (const term of terms) {
+    for (let index = window.indexOf(term); index !== -1; index = window.indexOf(term, index + term.length)) {
+      ranges.push([index + prefix.length, index + prefix.length + term.length]);
+    }
+  }
+
+  // Overlapping terms ("app", "apple") become one highlight
+  const highlights = ranges
+    .sort((a, b) => a[0] - b[0])
+    .reduce((merged, range) => {
+      const last = merged[merged.length - 1];
+      if (last && range[0] <= last[1]) {
+        last[1] = Math.max(last[1], range[1]);
+      } else {
+        merged.push(range);
+      }
+      return merged;
+    }, []);
+
+  return {
+    text: `${prefix}${text.slice(start, end)}${end < text.length ? '…' : ''}`,
+    highlights
+  };
+};
@@ -0,0 +1,55 @@
+// Messages agents have starred. Stars are per agent: starring a message
+// doesn't star it for the rest of the team. One document per agent and
+// message, keyed `<agent_id>:<message_id>`.
+
+const STARS_COLLECTION = 'starred_messages';
+
+export const createStarStore = ({ getDb, starsStore = [], onChange = async () => { } }) => {
+  const keyOf = (agentId, messageId) => `${agentId}:${messageId}`;
+
+  // Starring twice keeps the first star's time
+  const star = async (agentId, messageId) => {
+    const entry = { _id: keyOf(agentId, messageId), agent_id: agentId, message_id: messageId, starred_at: new Date() };
+    const db = getDb();
+    if (db) {
+      await db.collection(STARS_COLLECTION).updateOne({ _id: entry._id }, { $setOnInsert: entry }, { upsert: true });
+    } else if (!starsStore.some(existing => existing._id === entry._id)) {
+      starsStore.push(entry);
+      await onChange();
+    }
+  };
+
+  const unstar = async (agentId, messageId) => {
+    const db = getDb();
+    if (db) {
+      await db.collection(STARS_COLLECTION).deleteOne({ _id: keyOf(agentId, messageId) });
+      return;
+    }
+    const index = starsStore.findIndex(existing => existing._id === keyOf(agentId, messageId));
+    if (index !== -1) {
+      starsStore.splice(index, 1);
+      await onChange();
+    }
+  };
+
+  // The agent's stars, most recently starred first
+  const list = async (agentId) => {
+    const db = getDb();
+    const stars = db
+      ? await db.collection(STARS_COLLECTION).find({ agent_id: agentId }).toArray()
+      : starsStore.filter(entry => entry.agent_id === agentId);
+    return stars.sort((a, b) => b.starred_at - a.starred_at);
+  };
+
+  // Which of the given message ids the agent has starred
+  const starredIds = async (agentId, messageIds) => {
+    const keys = messageIds.map(messageId => keyOf(agentId, messageId));
+    const db = getDb();
+    const stars = db
+      ? await db.collection(STARS_COLLECTION).find({ _id: { $in: keys } }).toArray()
+      : starsStore.filter(entry => keys.includes(entry._id));
+    return new Set(stars.map(entry => entry.message_id));
+  };
+
+  return { star, unstar, list, starredIds };
+};
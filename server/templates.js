@@ -0,0 +1,124 @@
+// Message templates: the only thing WhatsApp Business lets you send outside
+// the 24-hour customer service window. Templates are stored in the shape Meta
+// uses for approval (name, language, category, components), and placeholder
+// variables ({{1}}, {{2}}, ...) are derived from the component texts.
+
+export const TEMPLATE_CATEGORIES = ['MARKETING', 'UTILITY', 'AUTHENTICATION'];
+const COMPONENT_TYPES = ['HEADER', 'BODY', 'FOOTER', 'BUTTONS'];
+const PLACEHOLDER_PATTERN = /\{\{(\d+)\}\}/g;
+
+export class TemplateValidationError extends Error {
+  constructor(message) {
+    super(message);
+    this.name = 'TemplateValidationError';
+  }
+}
+
+const placeholderIndexes = (text = '') =>
+  [...new Set([...text.matchAll(PLACEHOLDER_PATTERN)].map(match => parseInt(match[1])))].sort((a, b) => a - b);
+
+// Lists every placeholder per component, keeping labels/examples the caller
+// already gave for the same slot.
+export const extractTemplateVariables = (components, labelled = []) =>
+  components
+    .filter(component => component.type === 'HEADER' || component.type === 'BODY')
+    .flatMap(component => placeholderIndexes(component.text).map(index => {
+      const existing = labelled.find(v => v.component === component.type && v.index === index);
+      return {
+        component: component.type,
+        index,
+        label: existing?.label || `${component.type.toLowerCase()} {{${index}}}`,
+        ...(existing?.example && { example: existing.example })
+      };
+    }));
+
+const isText = (value) => typeof value === 'string' && value.trim() !== '';
+const isObject = (value) => typeof value === 'object' && value !== null && !Array.isArray(value);
+
+// Request bodies are untrusted: anything of the wrong type is a
+// TemplateValidationError, never a crash further down
+const validateComponent = (component) => {
+  if (!isObject(component)) {
+    throw new TemplateValidationError('components must be objects with a type');
+  }
+  if (!COMPONENT_TYPES.includes(component.type)) {
+    throw new TemplateValidationError(`unknown component type: ${component.type}`);
+  }
+  if (component.text !== undefined && typeof component.text !== 'string') {
+    throw new TemplateValidationError(`${component.type} text must be a string`);
+  }
+  if (component.buttons !== undefined &&
+    !(Array.isArray(component.buttons) && component.buttons.every(button => isObject(button) && isText(button.text)))) {
+    throw new TemplateValidationError('buttons must be a list of { text }');
+  }
+};
+
+export const normalizeTemplate = (input) => {
+  const { name, language, category, components, variables } = isObject(input) ? input : {};
+  if (typeof name !== 'string' || !/^[a-z0-9_]+$/.test(name.trim())) {
+    throw new TemplateValidationError('name must be lowercase letters, digits and underscores');
+  }
+  if (!isText(language)) {
+    throw new TemplateValidationError('language is required, e.g. en_US');
+  }
+  if (!TEMPLATE_CATEGORIES.includes(category)) {
+    throw new TemplateValidationError(`category must be one of ${TEMPLATE_CATEGORIES.join(', ')}`);
+  }
+  if (!Array.isArray(components)) {
+    throw new TemplateValidationError('components must include a BODY with text');
+  }
+  components.forEach(validateComponent);
+  if (!components.some(component => component.type === 'BODY' && isText(component.text))) {
+    throw new TemplateValidationError('components must include a BODY with text');
+  }
+  if (variables !== undefined && !(Array.isArray(variables) && variables.every(isObject))) {
+    throw new TemplateValidationError('variables must be a list of { component, index, label }');
+  }
+
+  return {
+    name: name.trim(),
+    language: language.trim(),
+    category,
+    components,
+    variables: extractTemplateVariables(components, variables)
+  };
+};
+
+const fillPlaceholders = (text, values = []) =>
+  text?.replace(PLACEHOLDER_PATTERN, (placeholder, index) => values[parseInt(index) - 1] ?? placeholder);
+
+// Builds the `template` part of a stored message: the Cloud API request
+// fields plus the rendered text used for previews and bubbles.
+// `parameters` maps component type to positional values, e.g. { BODY: ['Ann'] }.
+export const buildTemplateMessage = (template, parameters = {}) => {
+  const missing = template.variables.filter(v => !parameters[v.component]?.[v.index - 1]);
+  if (missing.length > 0) {
+    throw new TemplateValidationError(`missing values for ${missing.map(v => v.label).join(', ')}`);
+  }
+
+  const byType = type => template.components.find(component => component.type === type);
+  const header = byType('HEADER');
+  const body = byType('BODY');
+  const footer = byType('FOOTER');
+  const buttons = byType('BUTTONS');
+
+  const components = ['HEADER', 'BODY']
+    .filter(type => parameters[type]?.length && placeholderIndexes(byType(type)?.text).length)
+    .map(type => ({
+      type: type.toLowerCase(),
+      parameters: parameters[type].map(text => ({ type: 'text', text: String(text) }))
+    }));
+
+  return {
+    id: template._id,
+    name: template.name,
+    language: template.language,
+    components,
+    rendered: {
+      header: fillPlaceholders(header?.text, parameters.HEADER),
+      body: fillPlaceholders(body.text, parameters.BODY),
+      footer: footer?.text,
+      buttons: buttons?.buttons?.map(button => button.text) || []
+    }
+  };
+};
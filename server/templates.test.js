@@ -0,0 +1,42 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import { normalizeTemplate, TemplateValidationError } from './templates.js';
+
+const valid = {
+  name: 'order_update',
+  language: 'en_US',
+  category: 'UTILITY',
+  components: [
+    { type: 'BODY', text: 'Hi {{1}}, your order {{2}} has shipped' },
+    { type: 'BUTTONS', buttons: [{ text: 'Track' }] }
+  ]
+};
+
+describe('normalizeTemplate', () => {
+  it('derives the variables from the component texts', () => {
+    const template = normalizeTemplate({ ...valid, name: ' order_update ' });
+
+    assert.equal(template.name, 'order_update');
+    assert.deepEqual(template.variables.map(variable => variable.label), ['body {{1}}', 'body {{2}}']);
+  });
+
+  const invalid = {
+    'a missing body': undefined,
+    'a non-string name': { ...valid, name: 5 },
+    'a non-string language': { ...valid, language: ['en'] },
+    'an unknown category': { ...valid, category: 'SPAM' },
+    'components that are not a list': { ...valid, components: { type: 'BODY', text: 'Hi' } },
+    'a null component': { ...valid, components: [null, ...valid.components] },
+    'an unknown component type': { ...valid, components: [...valid.components, { type: 'IMAGE' }] },
+    'a non-string component text': { ...valid, components: [{ type: 'BODY', text: 42 }] },
+    'no BODY text': { ...valid, components: [{ type: 'BODY', text: '  ' }] },
+    'malformed buttons': { ...valid, components: [valid.components[0], { type: 'BUTTONS', buttons: 'Track' }] },
+    'malformed variables': { ...valid, variables: [null] }
+  };
+
+  for (const [what, input] of Object.entries(invalid)) {
+    it(`rejects ${what}`, () => {
+      assert.throws(() => normalizeTemplate(input), TemplateValidationError);
+    });
+  }
+});
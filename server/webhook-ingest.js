@@ -0,0 +1,216 @@
+import { toConversationUpdate } from './conversations.js';
+
+// Shared ingestion pipeline for WhatsApp Business API webhook deliveries.
+// Used by both the POST /webhook route and the webhook-processor CLI so the
+// two can no longer drift apart.
+
+const toMillis = (timestamp) => parseInt(timestamp) * 1000;
+
+// Inbound message types whose payload lives under a key named after the type
+// (e.g. `message.location` for `type: 'location'`).
+const CONTENT_TYPES = [
+  'text', 'image', 'video', 'document', 'audio', 'sticker', 'location',
+  'contacts', 'interactive', 'button', 'reaction', 'order', 'system'
+];
+const MEDIA_TYPES = ['image', 'video', 'document', 'audio', 'sticker'];
+
+// Copies the type-specific payload of an inbound message, plus the reply
+// context and any errors Meta attached to `unsupported` messages.
+export const extractMessageContent = (message) => {
+  const content = {};
+
+  if (CONTENT_TYPES.includes(message.type) && message[message.type]) {
+    content[message.type] = message[message.type];
+  }
+  if (MEDIA_TYPES.includes(message.type) && message[message.type]?.id) {
+    content.media_id = message[message.type].id;
+  }
+  if (message.context) {
+    content.context = message.context;
+  }
+  if (message.errors) {
+    content.errors = message.errors;
+  }
+
+  return content;
+};
+
+// `defaultPhoneNumberId` owns payloads without `metadata.phone_number_id`
+// (hand-written samples); real deliveries always name the business number.
+// Messages and profiles from conversations `isBlocked` accepts are dropped;
+// the payload itself is still journaled by the caller.
+export const createWebhookIngestor = ({
+  getRepository,
+  defaultPhoneNumberId = 'default',
+  isBlocked = async () => false,
+  emit = () => { },
+  log = console.log
+}) => {
+  // Records the status in the message's timeline and advances `status` only
+  // when the transition moves forward, so a late `delivered` can't undo `read`.
+  // Resolves to the stored message, or null when no message matches.
+  const applyStatus = (status) => getRepository().messages.recordStatus(status.id, {
+    status: status.status,
+    timestamp: toMillis(status.timestamp),
+    errors: status.errors
+  });
+
+  // Keeps one reaction per sender on the target message; an empty emoji
+  // removes the sender's reaction.
+  const applyReaction = async (message) => {
+    const repository = getRepository();
+    const { message_id: targetId, emoji } = message.reaction;
+
+    const target = await repository.messages.findByWhatsAppId(targetId);
+    if (!target) {
+      log(`No message found for reaction: ${targetId}`);
+      return;
+    }
+
+    const reactions = (target.reactions || []).filter(reaction => reaction.from !== message.from);
+    if (emoji) {
+      reactions.push({ from: message.from, emoji, timestamp: toMillis(message.timestamp) });
+    }
+
+    await repository.messages.update(target._id, { reactions });
+    emit('messageReaction', {
+      messageId: target.id,
+      phone_number_id: target.phone_number_id,
+      wa_id: target.wa_id,
+      reactions
+    });
+  };
+
+  const phoneNumberOf = (metadata) => metadata?.phone_number_id || defaultPhoneNumberId;
+
+  const processContacts = async ({ contacts, metadata }, summary) => {
+    for (const contact of contacts) {
+      const conversation = { phone_number_id: phoneNumberOf(metadata), wa_id: contact.wa_id };
+      if (await isBlocked(conversation)) continue;
+
+      await getRepository().contacts.upsertProfile(conversation, contact.profile?.name || contact.wa_id);
+      summary.contacts++;
+      log(`Updated contact: ${contact.wa_id}`);
+    }
+  };
+
+  const processMessages = async (value, summary) => {
+    const { messages, contacts, metadata } = value;
+
+    for (const message of messages) {
+      const sender = contacts?.find(c => c.wa_id === message.from) || contacts?.[0];
+      const conversation = { phone_number_id: phoneNumberOf(metadata), wa_id: message.from };
+      if (await isBlocked(conversation)) {
+        summary.blocked++;
+        log(`Dropped message from blocked contact: ${message.from}`);
+        continue;
+      }
+
+      const processedMessage = {
+        _id: `msg_${message.id}`,
+        id: message.id,
+        meta_msg_id: message.id,
+        from: message.from,
+        to: conversation.phone_number_id,
+        direction: 'inbound',
+        ...extractMessageContent(message),
+        timestamp: toMillis(message.timestamp),
+        type: message.type,
+        status: 'received',
+        ...conversation,
+        profile_name: sender?.profile?.name || message.from
+      };
+
+      // Upserts by WhatsApp message id so a redelivered webhook is a no-op
+      const inserted = await getRepository().messages.upsertByWhatsAppId(processedMessage);
+      summary.messages++;
+
+      if (inserted) {
+        log(`Inserted message: ${message.id}`);
+        emit('newMessage', processedMessage);
+
+        if (message.type === 'reaction' && message.reaction?.message_id) {
+          await applyReaction(message);
+        } else {
+          await getRepository().contacts.countUnread(conversation, processedMessage.timestamp);
+
+          // A customer writing again reopens a resolved conversation
+          const reopened = await getRepository().contacts.reopen(conversation);
+          if (reopened) {
+            log(`Reopened conversation: ${processedMessage.wa_id}`);
+            emit('conversationUpdate', toConversationUpdate(reopened));
+          }
+        }
+      } else {
+        summary.duplicates++;
+        log(`Message already stored, updated in place: ${message.id}`);
+      }
+    }
+  };
+
+  const processStatuses = async (statuses, summary) => {
+    for (const status of statuses) {
+      const message = await applyStatus(status);
+      summary.statuses++;
+
+      if (!message) {
+        log(`No message found for status update: ${status.id}`);
+        continue;
+      }
+
+      log(`Recorded status ${status.status} for ${status.id}, now ${message.status}`);
+      emit('messageStatusUpdate', {
+        messageId: status.id,
+        phone_number_id: message.phone_number_id,
+        wa_id: message.wa_id,
+        group: message.group,
+        campaign: message.campaign,
+        status: message.status,
+        status_timestamps: message.status_timestamps,
+        errors: message.errors
+      });
+    }
+  };
+
+  // Handlers keyed by the `field` of each change. A `messages` change can
+  // carry contacts, messages and statuses side by side; contacts go first so
+  // profile names exist before the messages that reference them.
+  const fieldHandlers = {
+    messages: async (value, summary) => {
+      if (value.contacts) {
+        await processContacts(value, summary);
+      }
+      if (value.messages) {
+        await processMessages(value, summary);
+      }
+      if (value.statuses) {
+        await processStatuses(value.statuses, summary);
+      }
+    }
+  };
+
+  const processPayload = async (payload) => {
+    const summary = { entries: 0, changes: 0, messages: 0, duplicates: 0, blocked: 0, statuses: 0, contacts: 0, skipped: [] };
+
+    for (const entry of payload?.entry || []) {
+      summary.entries++;
+
+      for (const change of entry.changes || []) {
+        summary.changes++;
+        const handler = fieldHandlers[change.field];
+
+        if (!handler || !change.value) {
+          log(`Skipping unsupported webhook field: ${change.field}`);
+          summary.skipped.push(change.field);
+          continue;
+        }
+
+        await handler(change.value, summary, { entry, change });
+      }
+    }
+
+    return summary;
+  };
+
+  return { processPayload };
+};
@@ -0,0 +1,111 @@
+// Journal of every raw webhook payload together with its processing outcome.
+// Entries that failed (or any hand-picked ones) can be replayed through the
+// same ingestion pipeline, so a bad deploy can be recovered without asking
+// Meta to resend.
+
+const JOURNAL_COLLECTION = 'webhook_journal';
+
+const createJournalId = () => `journal_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
+
+export const createWebhookJournal = ({ getDb, journalStore = [], log = console.log, onChange = async () => { } }) => {
+  const insert = async (entry) => {
+    const db = getDb();
+
+    if (db) {
+      await db.collection(JOURNAL_COLLECTION).insertOne(entry);
+    } else {
+      journalStore.push(entry);
+      await onChange();
+    }
+  };
+
+  const update = async (id, changes) => {
+    const db = getDb();
+
+    if (db) {
+      await db.collection(JOURNAL_COLLECTION).updateOne(
+        { _id: id },
+        { $set: changes, $inc: { attempts: 1 } }
+      );
+    } else {
+      const entry = journalStore.find(e => e._id === id);
+      if (entry) {
+        Object.assign(entry, changes);
+        entry.attempts++;
+        await onChange();
+      }
+    }
+  };
+
+  const find = async ({ ids, status, limit = 50 } = {}) => {
+    const db = getDb();
+    const query = {};
+    if (ids?.length) {
+      query._id = { $in: ids };
+    }
+    if (status) {
+      query.status = status;
+    }
+
+    if (db) {
+      return db.collection(JOURNAL_COLLECTION)
+        .find(query)
+        .sort({ received_at: 1 })
+        .limit(limit)
+        .toArray();
+    }
+
+    return journalStore
+      .filter(entry => (!query._id || ids.includes(entry._id)) && (!status || entry.status === status))
+      .slice(0, limit);
+  };
+
+  // Runs one journal entry through the ingestor and records how it went.
+  const run = async (entry, ingestor) => {
+    try {
+      const summary = await ingestor.processPayload(entry.payload);
+      await update(entry._id, { status: 'processed', summary, error: null, processed_at: new Date() });
+      return summary;
+    } catch (error) {
+      await update(entry._id, { status: 'failed', error: error.message, processed_at: new Date() });
+      throw error;
+    }
+  };
+
+  const ingest = async (payload, ingestor, { source = 'webhook' } = {}) => {
+    const entry = {
+      _id: createJournalId(),
+      payload,
+      source,
+      status: 'pending',
+      attempts: 0,
+      received_at: new Date()
+    };
+
+    await insert(entry);
+    const summary = await run(entry, ingestor);
+    return { journalId: entry._id, ...summary };
+  };
+
+  // Replays the selected entries, or every failed one when no ids are given.
+  // One entry failing again does not stop the rest.
+  const replay = async (ingestor, { ids, status = ids?.length ? undefined : 'failed', limit } = {}) => {
+    const entries = await find({ ids, status, limit });
+    const results = [];
+
+    for (const entry of entries) {
+      try {
+        const summary = await run(entry, ingestor);
+        results.push({ journalId: entry._id, status: 'processed', summary });
+        log(`Replayed webhook payload: ${entry._id}`);
+      } catch (error) {
+        results.push({ journalId: entry._id, status: 'failed', error: error.message });
+        log(`Replay failed for webhook payload ${entry._id}: ${error.message}`);
+      }
+    }
+
+    return results;
+  };
+
+  return { ingest, replay, find };
+};
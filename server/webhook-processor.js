@@ -2,21 +2,43 @@ import fs from 'fs';
 import path from 'path';
 import { MongoClient } from 'mongodb';
 import dotenv from 'dotenv';
+import { createBlockList } from './blocklist.js';
+import { createWebhookIngestor } from './webhook-ingest.js';
+import { createWebhookJournal } from './webhook-journal.js';
+import { createMongoRepository } from './repository.js';
+import { SIGNATURE_HEADER, signPayload } from './webhook-signature.js';
 
 dotenv.config();
 
 // Script to process sample webhook payloads from the provided zip file
 class WebhookProcessor {
-    constructor() {
+    // In test mode (`webhookUrl` set) payloads are signed with the app secret
+    // and POSTed to a running server instead of being written to MongoDB.
+    constructor({ webhookUrl = null } = {}) {
+        this.webhookUrl = webhookUrl;
         this.client = null;
         this.db = null;
+        this.ingestor = null;
+        this.journal = null;
     }
 
     async connect() {
+        if (this.webhookUrl) {
+            console.log(`Test mode: posting signed payloads to ${this.webhookUrl}`);
+            return;
+        }
+
         try {
             this.client = new MongoClient(process.env.MONGODB_URI || 'mongodb://localhost:27017');
             await this.client.connect();
             this.db = this.client.db('whatsapp');
+            const repository = createMongoRepository(this.db);
+            this.ingestor = createWebhookIngestor({
+                getRepository: () => repository,
+                defaultPhoneNumberId: process.env.WHATSAPP_PHONE_NUMBER_ID,
+                isBlocked: createBlockList({ getDb: () => this.db }).isBlocked
+            });
+            this.journal = createWebhookJournal({ getDb: () => this.db });
             console.log('Connected to MongoDB');
         } catch (error) {
             console.error('MongoDB connection error:', error);
@@ -37,7 +59,11 @@ class WebhookProcessor {
             const payload = JSON.parse(data);
 
             console.log(`Processing file: ${path.basename(filePath)}`);
-            await this.processWebhookPayload(payload);
+            if (this.webhookUrl) {
+                await this.postSignedPayload(data);
+            } else {
+                await this.processWebhookPayload(payload);
+            }
 
         } catch (error) {
             console.error(`Error processing file ${filePath}:`, error);
@@ -46,90 +72,47 @@ class WebhookProcessor {
 
     async processWebhookPayload(payload) {
         try {
-            if (payload.entry && payload.entry[0] && payload.entry[0].changes) {
-                const changes = payload.entry[0].changes[0];
-
-                if (changes.field === 'messages' && changes.value) {
-                    const { messages, statuses, contacts } = changes.value;
-
-                    // Process new messages
-                    if (messages) {
-                        for (const message of messages) {
-                            const processedMessage = {
-                                _id: `msg_${message.id}`,
-                                id: message.id,
-                                meta_msg_id: message.id,
-                                from: message.from,
-                                to: changes.value.metadata?.phone_number_id || 'business',
-                                text: message.text,
-                                timestamp: parseInt(message.timestamp) * 1000,
-                                type: message.type,
-                                status: 'received',
-                                wa_id: message.from,
-                                profile_name: contacts?.[0]?.profile?.name || message.from
-                            };
-
-                            await this.db.collection('processed_messages').updateOne(
-                                { id: message.id },
-                                { $set: processedMessage },
-                                { upsert: true }
-                            );
-
-                            console.log(`Inserted/Updated message: ${message.id}`);
-                        }
-                    }
-
-                    // Process status updates
-                    if (statuses) {
-                        for (const status of statuses) {
-                            const result = await this.db.collection('processed_messages').updateOne(
-                                {
-                                    $or: [
-                                        { id: status.id },
-                                        { meta_msg_id: status.id }
-                                    ]
-                                },
-                                {
-                                    $set: {
-                                        status: status.status,
-                                        status_timestamp: parseInt(status.timestamp) * 1000
-                                    }
-                                }
-                            );
-
-                            if (result.matchedCount > 0) {
-                                console.log(`Updated message status: ${status.id} -> ${status.status}`);
-                            } else {
-                                console.log(`No message found for status update: ${status.id}`);
-                            }
-                        }
-                    }
-
-                    // Process contacts
-                    if (contacts) {
-                        for (const contact of contacts) {
-                            await this.db.collection('contacts').updateOne(
-                                { wa_id: contact.wa_id },
-                                {
-                                    $set: {
-                                        profile_name: contact.profile?.name || contact.wa_id,
-                                        wa_id: contact.wa_id,
-                                        updated_at: new Date()
-                                    }
-                                },
-                                { upsert: true }
-                            );
-
-                            console.log(`Updated contact: ${contact.wa_id}`);
-                        }
-                    }
-                }
-            }
+            const summary = await this.journal.ingest(payload, this.ingestor, { source: 'processor' });
+            console.log(`Processed ${summary.messages} message(s), ${summary.statuses} status update(s), ${summary.contacts} contact(s)`);
+            return summary;
         } catch (error) {
             console.error('Error processing webhook payload:', error);
         }
     }
 
+    // Replays journaled payloads by id, or every failed one when no ids are given
+    async replayJournal(ids = []) {
+        if (!this.journal) {
+            throw new Error('Replaying the journal needs a MongoDB connection, drop --post');
+        }
+
+        const results = await this.journal.replay(this.ingestor, { ids });
+        const failed = results.filter(result => result.status === 'failed').length;
+        console.log(`Replayed ${results.length} payload(s), ${failed} failed`);
+        return results;
+    }
+
+    async postSignedPayload(rawBody) {
+        const appSecret = process.env.WHATSAPP_APP_SECRET;
+        const headers = { 'Content-Type': 'application/json' };
+
+        if (appSecret) {
+            headers[SIGNATURE_HEADER] = signPayload(rawBody, appSecret);
+        } else {
+            console.warn('WHATSAPP_APP_SECRET is not set, sending payload unsigned');
+        }
+
+        const response = await fetch(this.webhookUrl, { method: 'POST', headers, body: rawBody });
+        const result = await response.json().catch(() => null);
+
+        if (!response.ok) {
+            throw new Error(`Webhook rejected payload with ${response.status}: ${JSON.stringify(result)}`);
+        }
+
+        console.log('Webhook accepted payload:', result);
+        return result;
+    }
+
     async processDirectory(directoryPath) {
         try {
             const files = fs.readdirSync(directoryPath);
@@ -150,12 +133,27 @@ class WebhookProcessor {
 }
 
 // Usage example
-const processor = new WebhookProcessor();
+//   node webhook-processor.js                 write sample payloads straight to MongoDB
+//   node webhook-processor.js --post [url]    sign them and POST to a running server
+//   node webhook-processor.js --replay [ids]  replay failed (or the given comma-separated) journal entries
+const postFlagIndex = process.argv.indexOf('--post');
+const processor = new WebhookProcessor({
+    webhookUrl: postFlagIndex === -1
+        ? null
+        : process.argv[postFlagIndex + 1] || `http://localhost:${process.env.PORT || 3001}/webhook`
+});
 
 async function main() {
     try {
         await processor.connect();
 
+        const replayFlagIndex = process.argv.indexOf('--replay');
+        if (replayFlagIndex !== -1) {
+            const ids = process.argv[replayFlagIndex + 1]?.split(',').filter(Boolean) || [];
+            await processor.replayJournal(ids);
+            return;
+        }
+
         // Process sample payloads from the downloaded zip file
         // Replace 'path/to/extracted/payloads' with the actual path to your extracted payload files
         const payloadsDirectory = './sample-payloads';
@@ -0,0 +1,55 @@
+import crypto from 'crypto';
+
+// Meta signs every webhook delivery with the app secret and sends the
+// result as `X-Hub-Signature-256: sha256=<hex digest>` over the raw body.
+
+export const SIGNATURE_HEADER = 'x-hub-signature-256';
+
+export const signPayload = (rawBody, appSecret) => {
+  const digest = crypto.createHmac('sha256', appSecret).update(rawBody).digest('hex');
+  return `sha256=${digest}`;
+};
+
+export const isValidSignature = (rawBody, signature, appSecret) => {
+  if (!rawBody || typeof signature !== 'string') {
+    return false;
+  }
+
+  const expected = Buffer.from(signPayload(rawBody, appSecret));
+  const received = Buffer.from(signature);
+
+  return expected.length === received.length && crypto.timingSafeEqual(expected, received);
+};
+
+// Keeps the untouched request bytes around for signature checks; pass as the
+// `verify` option of express.json().
+export const captureRawBody = (req, res, buf) => {
+  req.rawBody = buf;
+};
+
+// Without an app secret, unsigned deliveries are only accepted outside
+// production (local development and the processor's test mode); a production
+// server without one refuses every delivery rather than trusting them.
+export const verifyWebhookSignature = (appSecret, { production = process.env.NODE_ENV === 'production' } = {}) => {
+  if (!appSecret && production) {
+    console.error('WHATSAPP_APP_SECRET is not set; rejecting all webhook deliveries in production');
+    return (req, res) => res.status(401).json({ error: 'Webhook signature verification is not configured' });
+  }
+  if (!appSecret) {
+    console.warn('WHATSAPP_APP_SECRET is not set, webhook signatures will NOT be verified');
+    return (req, res, next) => next();
+  }
+
+  return (req, res, next) => {
+    const signature = req.get(SIGNATURE_HEADER);
+
+    if (!isValidSignature(req.rawBody, signature, appSecret)) {
+      console.warn(`Rejected webhook with invalid signature from ${req.ip}`, {
+        signature: signature || null
+      });
+      return res.status(401).json({ error: 'Invalid webhook signature' });
+    }
+
+    next();
+  };
+};
@@ -0,0 +1,76 @@
+import assert from 'node:assert/strict';
+import { afterEach, beforeEach, describe, it, mock } from 'node:test';
+import { SIGNATURE_HEADER, signPayload, verifyWebhookSignature } from './webhook-signature.js';
+
+const SECRET = 'app-secret';
+const body = Buffer.from(JSON.stringify({ object: 'whatsapp_business_account', entry: [] }));
+
+const request = (rawBody, headers = {}) => ({
+  rawBody,
+  ip: '127.0.0.1',
+  get: (name) => headers[name.toLowerCase()]
+});
+
+// Runs the middleware and reports whether it let the delivery through or
+// which status it answered with
+const run = (middleware, req) => {
+  const outcome = { next: false, status: null };
+  const res = {
+    status(code) {
+      outcome.status = code;
+      return this;
+    },
+    json() {
+      return this;
+    }
+  };
+  middleware(req, res, () => {
+    outcome.next = true;
+  });
+  return outcome;
+};
+
+describe('verifyWebhookSignature', () => {
+  beforeEach(() => {
+    mock.method(console, 'warn', () => { });
+    mock.method(console, 'error', () => { });
+  });
+
+  afterEach(() => {
+    mock.restoreAll();
+  });
+
+  it('accepts a delivery signed with the app secret', () => {
+    const req = request(body, { [SIGNATURE_HEADER]: signPayload(body, SECRET) });
+
+    assert.deepEqual(run(verifyWebhookSignature(SECRET), req), { next: true, status: null });
+  });
+
+  it('rejects a delivery whose body was changed after signing', () => {
+    const tampered = Buffer.from(body.toString().replace('entry', 'entries'));
+    const req = request(tampered, { [SIGNATURE_HEADER]: signPayload(body, SECRET) });
+
+    assert.deepEqual(run(verifyWebhookSignature(SECRET), req), { next: false, status: 401 });
+  });
+
+  it('rejects a delivery signed with another secret', () => {
+    const req = request(body, { [SIGNATURE_HEADER]: signPayload(body, 'other-secret') });
+
+    assert.deepEqual(run(verifyWebhookSignature(SECRET), req), { next: false, status: 401 });
+  });
+
+  it('rejects a delivery without a signature header', () => {
+    assert.deepEqual(run(verifyWebhookSignature(SECRET), request(body)), { next: false, status: 401 });
+  });
+
+  it('refuses every delivery in production without an app secret', () => {
+    const middleware = verifyWebhookSignature(undefined, { production: true });
+
+    assert.deepEqual(run(middleware, request(body)), { next: false, status: 401 });
+    assert.deepEqual(run(middleware, request(body, { [SIGNATURE_HEADER]: signPayload(body, SECRET) })), { next: false, status: 401 });
+  });
+
+  it('lets unsigned deliveries through outside production without an app secret', () => {
+    assert.deepEqual(run(verifyWebhookSignature(undefined, { production: false }), request(body)), { next: true, status: null });
+  });
+});
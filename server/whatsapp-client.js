@@ -0,0 +1,113 @@
+// Minimal WhatsApp Cloud API client for outbound messages. The base URL is
+// configurable so a local mock can stand in for graph.facebook.com in tests.
+
+export class WhatsAppApiError extends Error {
+  constructor(message, { status, error } = {}) {
+    super(message);
+    this.name = 'WhatsAppApiError';
+    this.status = status;
+    this.error = error;
+  }
+
+  // Same shape as the `errors` array on failed status webhooks
+  toMessageErrors() {
+    return [{
+      code: this.error?.code ?? this.status ?? 0,
+      title: this.error?.type || 'Send failed',
+      message: this.error?.message || this.message,
+      ...(this.error?.error_data && { error_data: this.error.error_data })
+    }];
+  }
+}
+
+// Turns a stored message into the type-specific part of a Cloud API request.
+// Media stored by this server has a relative `/api/media/:id` url, which has
+// to be made public, and signed, for WhatsApp to fetch it.
+export const toCloudApiContent = (message, publicBaseUrl = '', signMediaUrl = (url) => url) => {
+  const content = message[message.type];
+
+  switch (message.type) {
+    case 'image':
+    case 'video':
+    case 'audio':
+    case 'sticker':
+    case 'document': {
+      const { url, id, caption, filename } = content || {};
+      const link = url?.startsWith('/') ? `${publicBaseUrl.replace(/\/$/, '')}${signMediaUrl(url)}` : url;
+      return {
+        ...(id ? { id } : { link }),
+        ...(caption && message.type !== 'audio' && { caption }),
+        ...(filename && message.type === 'document' && { filename })
+      };
+    }
+    case 'template':
+      return {
+        name: content.name,
+        language: { code: content.language },
+        components: content.components
+      };
+    default:
+      return content;
+  }
+};
+
+export const createWhatsAppClient = ({
+  accessToken,
+  phoneNumberId,
+  baseUrl = 'https://graph.facebook.com',
+  apiVersion = 'v19.0',
+  publicBaseUrl,
+  signMediaUrl
+}) => {
+  const isConfigured = Boolean(accessToken && phoneNumberId);
+
+  const request = async (path, body) => {
+    let response;
+    try {
+      response = await fetch(`${baseUrl.replace(/\/$/, '')}/${apiVersion}/${path}`, {
+        method: 'POST',
+        headers: {
+          Authorization: `Bearer ${accessToken}`,
+          'Content-Type': 'application/json'
+        },
+        body: JSON.stringify(body)
+      });
+    } catch (error) {
+      throw new WhatsAppApiError(`Cloud API request failed: ${error.message}`);
+    }
+
+    const result = await response.json().catch(() => null);
+    if (!response.ok) {
+      throw new WhatsAppApiError(
+        result?.error?.message || `Cloud API responded with ${response.status}`,
+        { status: response.status, error: result?.error }
+      );
+    }
+    return result;
+  };
+
+  // Resolves to the `wamid` WhatsApp assigned to the message
+  const sendMessage = async (message) => {
+    const result = await request(`${phoneNumberId}/messages`, {
+      messaging_product: 'whatsapp',
+      recipient_type: 'individual',
+      to: message.to,
+      type: message.type,
+      [message.type]: toCloudApiContent(message, publicBaseUrl, signMediaUrl)
+    });
+
+    return result.messages?.[0]?.id;
+  };
+
+  // Marks an inbound message, and every earlier one in the chat, as read on
+  // the customer's phone (blue ticks)
+  const markAsRead = async (messageId) => {
+    await request(`${phoneNumberId}/messages`, {
+      messaging_product: 'whatsapp',
+      status: 'read',
+      message_id: messageId
+    });
+  };
+
+  return { isConfigured, sendMessage, markAsRead };
+};
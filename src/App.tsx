@@ -1,9 +1,56 @@
-import React, { useState, useEffect, useRef } from 'react';
-import { Search, MoreVertical, Paperclip, Smile, Send, Check, CheckCheck, Image, Video, FileText, Mic, Phone, Video as VideoCall } from 'lucide-react';
-import { format, isToday, isYesterday, formatDistanceToNow } from 'date-fns';
+import React, { useState, useEffect, useLayoutEffect, useRef, useCallback } from 'react';
+import { Search, MoreVertical, Paperclip, Smile, Send, Check, CheckCheck, Image, Video, FileText, Mic, MapPin, User, Sticker, AlertCircle, Clock, RotateCw, LayoutTemplate, Star } from 'lucide-react';
+import { format, isToday, isYesterday } from 'date-fns';
 import io from 'socket.io-client';
 import axios from 'axios';
-import EmojiPicker from 'emoji-picker-react';
+import EmojiPicker, { EmojiClickData } from 'emoji-picker-react';
+import config from './config';
+import { createThumbnail } from './thumbnails';
+import Login from './Login';
+import { clearSession, loadSession, saveSession, Session } from './auth';
+import { createClientId, listOutboxEntries, OutboxEntry, removeOutboxEntry, saveOutboxEntry } from './outbox';
+
+interface MediaPayload {
+  id?: string;
+  media_id?: string;
+  url?: string;
+  thumbnail_url?: string;
+  mime_type?: string;
+  caption?: string;
+}
+
+interface SharedContact {
+  name: {
+    formatted_name: string;
+  };
+  phones?: {
+    phone: string;
+    type?: string;
+  }[];
+  emails?: {
+    email: string;
+  }[];
+  org?: {
+    company?: string;
+  };
+}
+
+interface Reaction {
+  from: string;
+  emoji: string;
+  timestamp?: number;
+}
+
+type MessageStatus = 'pending' | 'retrying' | 'sent' | 'delivered' | 'read' | 'failed';
+
+interface MessageError {
+  code: number;
+  title: string;
+  message?: string;
+  error_data?: {
+    details: string;
+  };
+}
 
 interface Message {
   _id: string;
@@ -13,28 +60,171 @@ interface Message {
   text?: {
     body: string;
   };
-  image?: {
-    url: string;
-    caption?: string;
+  image?: MediaPayload;
+  video?: MediaPayload;
+  document?: MediaPayload & {
+    filename: string;
+    mimetype?: string;
   };
-  video?: {
-    url: string;
-    caption?: string;
+  audio?: MediaPayload & {
+    duration?: number;
   };
-  document?: {
-    url: string;
-    filename: string;
-    mimetype: string;
+  sticker?: MediaPayload & {
+    animated?: boolean;
+  };
+  location?: {
+    latitude: number;
+    longitude: number;
+    name?: string;
+    address?: string;
   };
-  audio?: {
-    url: string;
-    duration: number;
+  contacts?: SharedContact[];
+  interactive?: {
+    type: 'button_reply' | 'list_reply';
+    button_reply?: { id: string; title: string };
+    list_reply?: { id: string; title: string; description?: string };
+  };
+  button?: {
+    text: string;
+    payload?: string;
+  };
+  reaction?: {
+    message_id: string;
+    emoji: string;
+  };
+  reactions?: Reaction[];
+  template?: {
+    id: string;
+    name: string;
+    language: string;
+    rendered: {
+      header?: string;
+      body: string;
+      footer?: string;
+      buttons: string[];
+    };
   };
+  media_id?: string;
   timestamp: number;
-  type: 'text' | 'image' | 'video' | 'document' | 'audio';
-  status?: 'sent' | 'delivered' | 'read';
+  type: 'text' | 'image' | 'video' | 'document' | 'audio' | 'sticker' | 'location' | 'contacts' | 'interactive' | 'button' | 'reaction' | 'template' | 'unsupported';
+  status?: MessageStatus;
+  status_timestamps?: Partial<Record<MessageStatus, number>>;
+  errors?: MessageError[];
   wa_id: string;
+  phone_number_id?: string;
   profile_name?: string;
+  direction?: 'inbound' | 'outbound';
+  agent?: { id: string; name: string };
+  // Set by this client when sending, echoed back by the server
+  client_id?: string;
+  // Group messages: the agent who wrote it and each member's copy
+  group_id?: string;
+  sender?: Assignee;
+  deliveries?: GroupDelivery[];
+  // A member's copy of a group message
+  group?: { id: string; name: string; message_id: string };
+  // One recipient's message of a campaign
+  campaign?: { id: string; name: string };
+  // Starred by the signed-in agent
+  starred?: boolean;
+}
+
+interface TemplateComponent {
+  type: 'HEADER' | 'BODY' | 'FOOTER' | 'BUTTONS';
+  text?: string;
+  buttons?: { type: string; text: string }[];
+}
+
+interface Template {
+  _id: string;
+  name: string;
+  language: string;
+  category: 'MARKETING' | 'UTILITY' | 'AUTHENTICATION';
+  components: TemplateComponent[];
+  variables: {
+    component: 'HEADER' | 'BODY';
+    index: number;
+    label: string;
+    example?: string;
+  }[];
+}
+
+interface BroadcastList {
+  id: string;
+  phone_number_id: string;
+  name: string;
+  recipients: GroupMember[];
+  created_at: string;
+}
+
+// Read messages also count as delivered and sent; skipped recipients were
+// blocked and got no message
+interface CampaignStats {
+  total: number;
+  skipped: number;
+  pending: number;
+  sent: number;
+  delivered: number;
+  read: number;
+  failed: number;
+}
+
+interface Campaign {
+  id: string;
+  phone_number_id: string;
+  name: string;
+  list: { id: string; name: string; size: number };
+  message: Pick<Message, 'type' | 'text' | 'template'>;
+  created_by: Assignee;
+  created_at: string;
+  stats: CampaignStats;
+}
+
+interface BlockedContact {
+  phone_number_id: string;
+  wa_id: string;
+  profile_name: string;
+  blocked_by: Assignee;
+  blocked_at: string;
+}
+
+interface MessagePage {
+  messages: Message[];
+  before: string | null;
+  after: string | null;
+  has_more_before: boolean;
+  has_more_after: boolean;
+}
+
+type ConversationState = 'open' | 'pending' | 'resolved';
+
+interface Assignee {
+  id: string;
+  name: string;
+}
+
+interface GroupMember {
+  wa_id: string;
+  profile_name: string;
+}
+
+interface Group {
+  id: string;
+  phone_number_id: string;
+  name: string;
+  members: GroupMember[];
+  admins: Assignee[];
+  created_by: Assignee;
+}
+
+// One member's copy of a group message; blocked members are skipped and get
+// no copy
+interface GroupDelivery extends GroupMember {
+  message_id: string | null;
+  status: MessageStatus | null;
+  skipped?: 'blocked';
+  status_timestamps?: Partial<Record<MessageStatus, number>>;
+  errors?: MessageError[] | null;
 }
 
 interface Contact {
@@ -42,21 +232,189 @@ interface Contact {
   profile_name: string;
   lastMessage?: Message;
   unreadCount: number;
+  state?: ConversationState;
+  assignee?: Assignee | null;
+}
+
+interface ConversationUpdate {
+  phone_number_id?: string;
+  wa_id: string;
+  state: ConversationState;
+  assignee: Assignee | null;
+}
+
+interface ConversationSummary extends ConversationUpdate {
+  profile_name: string;
+  unread_count: number;
+  last_message: Message | null;
+  last_activity: number;
 }
 
-const socket = io('http://localhost:3001', {
-  transports: ['websocket', 'polling']
+// A business phone number conversations can belong to
+interface Account {
+  id: string;
+  name: string;
+  display_phone_number: string | null;
+  configured: boolean;
+}
+
+type InboxView = 'mine' | 'unassigned' | 'all' | 'resolved';
+
+const INBOX_VIEWS: { view: InboxView; label: string }[] = [
+  { view: 'mine', label: 'Mine' },
+  { view: 'unassigned', label: 'Unassigned' },
+  { view: 'all', label: 'All' },
+  { view: 'resolved', label: 'Resolved' }
+];
+
+// Client-side mirror of the server's sidebar views, for live updates
+const matchesInboxView = (contact: Contact, view: InboxView, agentId: string) => {
+  const state = contact.state || 'open';
+  if (view === 'resolved') return state === 'resolved';
+  if (state === 'resolved') return false;
+  if (view === 'mine') return contact.assignee?.id === agentId;
+  if (view === 'unassigned') return !contact.assignee;
+  return true;
+};
+
+interface ConversationPage {
+  conversations: ConversationSummary[];
+  before: string | null;
+  has_more: boolean;
+}
+
+interface SearchResult {
+  message: Message;
+  snippet: { text: string; highlights: [number, number][] };
+  cursor: string;
+}
+
+interface StarredMessage {
+  message: Message;
+  profile_name: string;
+  starred_at: string;
+  cursor: string;
+}
+
+interface SearchFilters {
+  type: string;
+  since: string;
+  until: string;
+}
+
+const toContact = (summary: ConversationSummary): Contact => ({
+  wa_id: summary.wa_id,
+  profile_name: summary.profile_name,
+  unreadCount: summary.unread_count,
+  lastMessage: summary.last_message || undefined,
+  state: summary.state,
+  assignee: summary.assignee
 });
 
-function App() {
+const MESSAGE_PAGE_SIZE = 50;
+// How often a typing agent refreshes the indicator, and how long others keep
+// showing it without a refresh
+const TYPING_REFRESH_MS = 2000;
+const TYPING_TIMEOUT_MS = 5000;
+
+// 'syncing' is the gap between reconnecting and having caught up on the
+// events missed while offline
+type ConnectionState = 'connecting' | 'connected' | 'reconnecting' | 'syncing';
+
+// Sent with every replayable socket event
+interface EventPosition {
+  epoch: string;
+  seq: number;
+}
+
+interface ResumeResult extends EventPosition {
+  events?: { event: string; data: unknown; seq: number }[];
+  resync?: boolean;
+}
+
+// Connected once an agent is signed in, with their token in the handshake
+const socket = io(config.socketUrl, {
+  transports: ['websocket', 'polling'],
+  autoConnect: false
+});
+
+// Outbound messages stored before agent accounts existed have `from: 'me'`
+const isOwnMessage = (message?: Message) =>
+  message?.direction === 'outbound' || message?.from === 'me';
+
+// Signed media URLs are renewed this long before they expire
+const MEDIA_URL_RENEW_MS = 5 * 60 * 1000;
+
+const signedUrlExpiry = (signedUrl: string) =>
+  Number(new URLSearchParams(signedUrl.split('?')[1]).get('expires')) || 0;
+
+// Conversations are per business number, so every conversation request
+// names the selected one (null is the server's default number)
+const withAccount = (accountId: string | null, params: Record<string, unknown> = {}) => ({
+  ...params,
+  phone_number_id: accountId ?? undefined
+});
+
+// Group conversations use the group id as their wa_id
+const isGroupId = (wa_id: string) => wa_id.startsWith('group_');
+
+// Events for conversations on another number than the one being viewed
+const isOtherAccount = (event: { phone_number_id?: string }, accountId: string | null) =>
+  Boolean(event.phone_number_id && accountId && event.phone_number_id !== accountId);
+
+// Whether a message belongs in the chat being viewed
+const isInOpenChat = (message: Message, openChat: string | null, accountId: string | null) =>
+  message.wa_id === openChat && !isOtherAccount(message, accountId);
+
+// Adds a message to the list once. A stored message replaces the optimistic
+// bubble with its client id; one already stored is kept, since it may have
+// newer status updates than the copy arriving now.
+const mergeMessage = (messages: Message[], message: Message) => {
+  const index = messages.findIndex(msg =>
+    msg._id === message._id || (message.client_id && msg.client_id === message.client_id));
+  if (index === -1) return [...messages, message];
+  if (messages[index]._id === message._id) return messages;
+  return messages.map((msg, i) => i === index ? message : msg);
+};
+
+// An outbox entry's bubble, showing whether it is still waiting or failed
+const toOutboxMessage = (entry: OutboxEntry<Message>): Message => ({
+  ...entry.message,
+  status: entry.state,
+  errors: entry.error ? [{ code: 0, title: 'Send failed', message: entry.error }] : undefined
+});
+
+// The outbox's messages for one chat
+const unsentMessages = async (agentId: string, phoneNumberId: string | null, wa_id: string) => {
+  try {
+    const entries = await listOutboxEntries<Message>(agentId);
+    return entries
+      .filter(entry => entry.wa_id === wa_id && entry.phone_number_id === phoneNumberId)
+      .map(toOutboxMessage);
+  } catch (error) {
+    console.error('Error reading the outbox:', error);
+    return [];
+  }
+};
+
+interface ChatAppProps {
+  session: Session;
+  onLogout: () => void;
+}
+
+function ChatApp({ session, onLogout }: ChatAppProps) {
   const [contacts, setContacts] = useState<Contact[]>([]);
   const [selectedContact, setSelectedContact] = useState<Contact | null>(null);
   const [messages, setMessages] = useState<Message[]>([]);
   const [newMessage, setNewMessage] = useState('');
   const [searchQuery, setSearchQuery] = useState('');
-  const [isConnected, setIsConnected] = useState(false);
+  const [connectionState, setConnectionState] = useState<ConnectionState>('connecting');
   const [showEmojiPicker, setShowEmojiPicker] = useState(false);
   const [showAttachmentMenu, setShowAttachmentMenu] = useState(false);
+  const [showTemplatePicker, setShowTemplatePicker] = useState(false);
+  const [templates, setTemplates] = useState<Template[]>([]);
+  const [selectedTemplate, setSelectedTemplate] = useState<Template | null>(null);
+  const [templateParams, setTemplateParams] = useState<Record<string, string[]>>({});
   const [isRecording, setIsRecording] = useState(false);
   const [showChatMenu, setShowChatMenu] = useState(false);
   const [showContactMenu, setShowContactMenu] = useState(false);
@@ -65,6 +423,17 @@ function App() {
   const [showNewGroup, setShowNewGroup] = useState(false);
   const [groupName, setGroupName] = useState('');
   const [selectedContactsForGroup, setSelectedContactsForGroup] = useState<string[]>([]);
+  // Members and admins of the open group chat
+  const [selectedGroup, setSelectedGroup] = useState<Group | null>(null);
+  const [showGroupInfo, setShowGroupInfo] = useState(false);
+  const [groupNameDraft, setGroupNameDraft] = useState('');
+  const [showBroadcasts, setShowBroadcasts] = useState(false);
+  const [broadcastLists, setBroadcastLists] = useState<BroadcastList[]>([]);
+  const [campaigns, setCampaigns] = useState<Campaign[]>([]);
+  const [broadcastListName, setBroadcastListName] = useState('');
+  const [broadcastListFile, setBroadcastListFile] = useState<File | null>(null);
+  const [campaignDraft, setCampaignDraft] = useState({ list_id: '', name: '', body: '', template_id: '' });
+  const [campaignParams, setCampaignParams] = useState<Record<string, string[]>>({});
   const [settings, setSettings] = useState({
     notifications: true,
     darkMode: false,
@@ -75,47 +444,355 @@ function App() {
   const [showPrivacy, setShowPrivacy] = useState(false);
   const [showStorage, setShowStorage] = useState(false);
   const [showHelp, setShowHelp] = useState(false);
+  const [messageInfoId, setMessageInfoId] = useState<string | null>(null);
+  const [messageMenuId, setMessageMenuId] = useState<string | null>(null);
+  const [showStarred, setShowStarred] = useState(false);
+  const [starredMessages, setStarredMessages] = useState<StarredMessage[]>([]);
+  // Customers blocked on the selected number
+  const [blockedContacts, setBlockedContacts] = useState<BlockedContact[]>([]);
+  // Local bubbles carry the same sender fields the server stores
+  const ownMessageFields = {
+    from: session.agent.id,
+    direction: 'outbound' as const,
+    agent: { id: session.agent.id, name: session.agent.name }
+  };
+  const [searchResults, setSearchResults] = useState<SearchResult[]>([]);
+  const [searchFilters, setSearchFilters] = useState<SearchFilters>({ type: '', since: '', until: '' });
+  const [highlightedMessageId, setHighlightedMessageId] = useState<string | null>(null);
+  const [inboxView, setInboxView] = useState<InboxView>('all');
+  const [agents, setAgents] = useState<Assignee[]>([]);
+  const [accounts, setAccounts] = useState<Account[]>([]);
+  // null is the server's default number
+  const [accountId, setAccountId] = useState<string | null>(null);
+  // Other agents with the open chat on screen, and those of them typing
+  const [viewers, setViewers] = useState<Assignee[]>([]);
+  const [typingAgents, setTypingAgents] = useState<Assignee[]>([]);
   const fileInputRef = useRef<HTMLInputElement>(null);
   const emojiPickerRef = useRef<HTMLDivElement>(null);
   const chatMenuRef = useRef<HTMLDivElement>(null);
   const contactMenuRef = useRef<HTMLDivElement>(null);
+  const messagesContainerRef = useRef<HTMLDivElement>(null);
+  // Scroll height/offset captured before older messages are prepended
+  const scrollAnchorRef = useRef<{ height: number; top: number } | null>(null);
+  const stickToBottomRef = useRef(true);
+  const openChatRef = useRef<string | null>(null);
+  // Set after jumping into the middle of a conversation, until the newest
+  // messages have been scrolled back into view
+  const newerCursorRef = useRef<string | null>(null);
+  const loadingNewerRef = useRef(false);
+  // Read by socket handlers, which are registered once
+  const inboxViewRef = useRef<InboxView>('all');
+  const accountIdRef = useRef<string | null>(null);
+  const defaultAccountIdRef = useRef<string | null>(null);
+  const contactsRef = useRef<Contact[]>([]);
+  const typingTimersRef = useRef(new Map<string, ReturnType<typeof setTimeout>>());
+  const typingSentAtRef = useRef(0);
+  // Position of the last socket event handled, sent back when resuming
+  const lastEventRef = useRef<EventPosition | null>(null);
+  // ChatApp is remounted for every agent, so this never changes
+  const agentIdRef = useRef(session.agent.id);
+  const flushingOutboxRef = useRef(false);
+  // Outbox entries with a POST still on its way; a flush leaves them alone
+  const sendingOutboxRef = useRef(new Set<string>());
+  // Media is private: <img> and <video> tags can't send the agent's token, so
+  // they load it through signed URLs, keyed by the stored /api/media/:id url
+  const [signedMediaUrls, setSignedMediaUrls] = useState<Record<string, string>>({});
+  const unsignedMediaRef = useRef(new Set<string>());
+  const signingMediaRef = useRef(new Set<string>());
+  const [olderCursor, setOlderCursor] = useState<string | null>(null);
+  const [loadingOlder, setLoadingOlder] = useState(false);
+  const [conversationsCursor, setConversationsCursor] = useState<string | null>(null);
+  const [loadingConversations, setLoadingConversations] = useState(false);
 
   useEffect(() => {
     // Socket connection
+    socket.auth = { token: session.token };
+    socket.connect();
+
+    socket.on('connect_error', (error) => {
+      console.error('Socket connection error:', error.message);
+      if (error.message === 'Authentication required') {
+        onLogout();
+      }
+    });
+
+    socket.onAny((_event: string, _data: unknown, position?: EventPosition) => {
+      if (position?.seq) {
+        lastEventRef.current = position;
+      }
+    });
+
+    // Rooms are per connection, so every connect rejoins them and catches up
+    // on what was missed: replayed through the normal handlers, or reloaded
+    // when the server can no longer replay it
     socket.on('connect', () => {
       console.log('Connected to server');
-      setIsConnected(true);
+      // The first connect has nothing to catch up on
+      setConnectionState(lastEventRef.current ? 'syncing' : 'connecting');
+
+      socket.emit('resume', {
+        phone_number_id: accountIdRef.current,
+        wa_id: openChatRef.current,
+        ...lastEventRef.current
+      }, (result: ResumeResult) => {
+        if (result.resync) {
+          loadContacts();
+          if (openChatRef.current) {
+            loadMessages(openChatRef.current);
+          }
+        } else {
+          for (const { event, data, seq } of result.events || []) {
+            socket.listeners(event).forEach(listener => listener(data, { epoch: result.epoch, seq }));
+          }
+        }
+        lastEventRef.current = { epoch: result.epoch, seq: result.seq };
+        setConnectionState('connected');
+      });
     });
 
-    socket.on('disconnect', () => {
+    socket.on('disconnect', (reason) => {
       console.log('Disconnected from server');
-      setIsConnected(false);
+      setConnectionState('reconnecting');
+      // The client only reconnects by itself after network failures
+      if (reason === 'io server disconnect') {
+        socket.connect();
+      }
     });
 
+    // Only sent for the open chat; the sidebar hears about every
+    // conversation through conversationActivity
     socket.on('newMessage', (message: Message) => {
-      setMessages(prev => [...prev, message]);
-      updateContactLastMessage(message);
+      if (isOtherAccount(message, accountIdRef.current ?? defaultAccountIdRef.current)) return;
+      if (message.wa_id !== openChatRef.current) return;
+      // Reactions are shown as badges on their target via messageReaction
+      if (!newerCursorRef.current && message.type !== 'reaction') {
+        setMessages(prev => mergeMessage(prev, message));
+      }
+      // Messages arriving in the open chat are read straight away
+      if (!isOwnMessage(message)) {
+        markConversationRead(message.wa_id);
+      }
+    });
+
+    socket.on('conversationActivity', (activity: { phone_number_id?: string; wa_id: string; last_message: Message }) => {
+      if (isOtherAccount(activity, accountIdRef.current ?? defaultAccountIdRef.current)) return;
+      updateContactLastMessage(activity.last_message);
     });
 
-    socket.on('messageStatusUpdate', (update: { messageId: string; status: string }) => {
+    socket.on('chatPresence', (presence: { wa_id: string; agents: Assignee[] }) => {
+      if (presence.wa_id !== openChatRef.current) return;
+      setViewers(presence.agents.filter(agent => agent.id !== session.agent.id));
+    });
+
+    socket.on('agentTyping', (update: { wa_id: string; agent: Assignee; typing: boolean }) => {
+      if (update.wa_id !== openChatRef.current) return;
+      const timers = typingTimersRef.current;
+      const stopTyping = () => {
+        clearTimeout(timers.get(update.agent.id));
+        timers.delete(update.agent.id);
+        setTypingAgents(prev => prev.filter(agent => agent.id !== update.agent.id));
+      };
+
+      if (!update.typing) {
+        stopTyping();
+        return;
+      }
+      clearTimeout(timers.get(update.agent.id));
+      timers.set(update.agent.id, setTimeout(stopTyping, TYPING_TIMEOUT_MS));
+      setTypingAgents(prev => prev.some(agent => agent.id === update.agent.id) ? prev : [...prev, update.agent]);
+    });
+
+    socket.on('conversationUpdate', (update: ConversationUpdate) => {
+      if (isOtherAccount(update, accountIdRef.current ?? defaultAccountIdRef.current)) return;
+      const changes = { state: update.state, assignee: update.assignee };
+      setSelectedContact(prev => prev?.wa_id === update.wa_id ? { ...prev, ...changes } : prev);
+
+      const existing = contactsRef.current.find(contact => contact.wa_id === update.wa_id);
+      const visible = matchesInboxView({ ...existing, ...update, profile_name: '', unreadCount: 0 }, inboxViewRef.current, session.agent.id);
+      if (!existing) {
+        // Newly part of this view (e.g. transferred to me): fetch it with its preview
+        if (visible) loadContacts();
+        return;
+      }
+
+      setContacts(prev => visible
+        ? prev.map(contact => contact.wa_id === update.wa_id ? { ...contact, ...changes } : contact)
+        : prev.filter(contact => contact.wa_id !== update.wa_id));
+    });
+
+    socket.on('conversationRead', (update: { phone_number_id?: string; wa_id: string; unread_count: number }) => {
+      if (isOtherAccount(update, accountIdRef.current ?? defaultAccountIdRef.current)) return;
+      setContacts(prev =>
+        prev.map(contact =>
+          contact.wa_id === update.wa_id
+            ? { ...contact, unreadCount: update.unread_count }
+            : contact
+        )
+      );
+    });
+
+    // The queue knows the stored message; an outbox bubble the POST hasn't
+    // answered for yet is found by its client id
+    socket.on('outboundQueueUpdate', (update: {
+      messageId: string;
+      client_id?: string;
+      id?: string;
+      status: MessageStatus;
+      status_timestamps?: Message['status_timestamps'];
+      errors?: MessageError[];
+    }) => {
+      const applyUpdate = (msg: Message): Message => ({
+        ...msg,
+        _id: update.messageId,
+        id: update.id || msg.id,
+        status: update.status,
+        status_timestamps: { ...msg.status_timestamps, ...update.status_timestamps },
+        errors: update.errors || undefined
+      });
+      const matches = (msg: Message) =>
+        msg._id === update.messageId || Boolean(update.client_id && msg.client_id === update.client_id);
+
+      setMessages(prev => prev.map(msg => matches(msg) ? applyUpdate(msg) : msg));
+      setContacts(prev => prev.map(contact =>
+        contact.lastMessage && matches(contact.lastMessage)
+          ? { ...contact, lastMessage: applyUpdate(contact.lastMessage) }
+          : contact
+      ));
+    });
+
+    // Group messages follow their member copies
+    socket.on('groupDeliveryUpdate', (update: { messageId: string; status: MessageStatus; deliveries: GroupDelivery[] }) => {
+      const applyUpdate = (msg: Message): Message => ({ ...msg, status: update.status, deliveries: update.deliveries });
+
+      setMessages(prev => prev.map(msg => msg._id === update.messageId ? applyUpdate(msg) : msg));
+      setContacts(prev => prev.map(contact =>
+        contact.lastMessage?._id === update.messageId
+          ? { ...contact, lastMessage: applyUpdate(contact.lastMessage) }
+          : contact
+      ));
+    });
+
+    // A group was created, renamed or had its members or admins changed
+    socket.on('groupUpdate', (update: { phone_number_id?: string; wa_id: string; group: Group }) => {
+      if (isOtherAccount(update, accountIdRef.current ?? defaultAccountIdRef.current)) return;
+      const { group } = update;
+      setSelectedGroup(prev => prev?.id === group.id ? group : prev);
+      setSelectedContact(prev => prev?.wa_id === group.id ? { ...prev, profile_name: group.name } : prev);
+
+      // New groups start as open, unassigned conversations
+      const contact: Contact = { wa_id: group.id, profile_name: group.name, unreadCount: 0, state: 'open', assignee: null };
+      setContacts(prev => prev.some(c => c.wa_id === group.id)
+        ? prev.map(c => c.wa_id === group.id ? { ...c, profile_name: group.name } : c)
+        : matchesInboxView(contact, inboxViewRef.current, session.agent.id) ? [contact, ...prev] : prev);
+    });
+
+    // Counts of a campaign moved on, or a campaign was started
+    socket.on('campaignUpdate', (update: { phone_number_id?: string; campaign: Campaign }) => {
+      if (isOtherAccount(update, accountIdRef.current ?? defaultAccountIdRef.current)) return;
+      setCampaigns(prev => prev.some(campaign => campaign.id === update.campaign.id)
+        ? prev.map(campaign => campaign.id === update.campaign.id ? update.campaign : campaign)
+        : [update.campaign, ...prev]);
+    });
+
+    // Another agent blocked or unblocked a customer on this number
+    socket.on('blockUpdate', (update: { phone_number_id?: string; wa_id: string; blocked: boolean; block?: BlockedContact }) => {
+      if (isOtherAccount(update, accountIdRef.current ?? defaultAccountIdRef.current)) return;
+      const { block } = update;
+      setBlockedContacts(prev => {
+        const others = prev.filter(b => b.wa_id !== update.wa_id);
+        return block ? [...others, block].sort((a, b) => a.profile_name.localeCompare(b.profile_name)) : others;
+      });
+    });
+
+    socket.on('messageReaction', (update: { messageId: string; reactions: Reaction[] }) => {
       setMessages(prev =>
         prev.map(msg =>
-          msg._id === update.messageId
-            ? { ...msg, status: update.status as 'sent' | 'delivered' | 'read' }
+          msg.id === update.messageId
+            ? { ...msg, reactions: update.reactions }
             : msg
         )
       );
     });
 
-    // Load initial data
-    loadContacts();
+    // Webhook statuses name the message by its WhatsApp id (wamid), which
+    // sent messages got from the queue's update
+    socket.on('messageStatusUpdate', (update: {
+      messageId: string;
+      status: MessageStatus;
+      status_timestamps?: Message['status_timestamps'];
+      errors?: MessageError[];
+    }) => {
+      const applyUpdate = (msg: Message): Message => ({
+        ...msg,
+        status: update.status,
+        status_timestamps: { ...msg.status_timestamps, ...update.status_timestamps },
+        errors: update.errors || msg.errors
+      });
+
+      setMessages(prev => prev.map(msg => msg.id === update.messageId ? applyUpdate(msg) : msg));
+      setContacts(prev => prev.map(contact =>
+        contact.lastMessage?.id === update.messageId
+          ? { ...contact, lastMessage: applyUpdate(contact.lastMessage) }
+          : contact
+      ));
+    });
 
     return () => {
+      socket.disconnect();
+      socket.offAny();
+      socket.off('connect_error');
       socket.off('connect');
       socket.off('disconnect');
       socket.off('newMessage');
+      socket.off('conversationActivity');
+      socket.off('chatPresence');
+      socket.off('agentTyping');
+      socket.off('conversationRead');
+      socket.off('conversationUpdate');
       socket.off('messageStatusUpdate');
+      socket.off('messageReaction');
+      socket.off('outboundQueueUpdate');
+      socket.off('groupDeliveryUpdate');
+      socket.off('groupUpdate');
+      socket.off('campaignUpdate');
+      socket.off('blockUpdate');
     };
+  }, [session.token, session.agent.id, onLogout]);
+
+  useEffect(() => {
+    inboxViewRef.current = inboxView;
+    accountIdRef.current = accountId;
+    loadContacts();
+  }, [inboxView, accountId]);
+
+  // The sidebar channel follows the selected business number
+  useEffect(() => {
+    if (socket.connected) {
+      socket.emit('join-inbox', accountId);
+    }
+  }, [accountId]);
+
+  useEffect(() => {
+    axios.get(`${config.apiUrl}/api/blocked-contacts`, { params: withAccount(accountId) })
+      .then(response => setBlockedContacts(response.data))
+      .catch(error => console.error('Error loading blocked contacts:', error));
+  }, [accountId]);
+
+  useEffect(() => {
+    contactsRef.current = contacts;
+  }, [contacts]);
+
+  useEffect(() => {
+    axios.get(`${config.apiUrl}/api/agents`)
+      .then(response => setAgents(response.data))
+      .catch(error => console.error('Error loading agents:', error));
+
+    axios.get(`${config.apiUrl}/api/accounts`)
+      .then(response => {
+        setAccounts(response.data);
+        defaultAccountIdRef.current = response.data[0]?.id ?? null;
+      })
+      .catch(error => console.error('Error loading accounts:', error));
   }, []);
 
   // Close menus when clicking outside
@@ -127,19 +804,25 @@ function App() {
       if (showAttachmentMenu && !(event.target as Element)?.closest('.attachment-menu')) {
         setShowAttachmentMenu(false);
       }
+      if (showTemplatePicker && !(event.target as Element)?.closest('.template-picker')) {
+        setShowTemplatePicker(false);
+      }
       if (chatMenuRef.current && !chatMenuRef.current.contains(event.target as Node)) {
         setShowChatMenu(false);
       }
       if (contactMenuRef.current && !contactMenuRef.current.contains(event.target as Node)) {
         setShowContactMenu(false);
       }
+      if (messageMenuId && !(event.target as Element)?.closest('.message-menu')) {
+        setMessageMenuId(null);
+      }
     };
 
     document.addEventListener('mousedown', handleClickOutside);
     return () => {
       document.removeEventListener('mousedown', handleClickOutside);
     };
-  }, [showAttachmentMenu, showChatMenu, showContactMenu]);
+  }, [showAttachmentMenu, showTemplatePicker, showChatMenu, showContactMenu, messageMenuId]);
 
   // Close modals when clicking outside
   useEffect(() => {
@@ -162,61 +845,54 @@ function App() {
       if (showHelp && target.classList.contains('fixed')) {
         setShowHelp(false);
       }
+      if (messageInfoId && target.classList.contains('fixed')) {
+        setMessageInfoId(null);
+      }
+      if (showGroupInfo && target.classList.contains('fixed')) {
+        setShowGroupInfo(false);
+      }
+      if (showBroadcasts && target.classList.contains('fixed')) {
+        setShowBroadcasts(false);
+      }
+      if (showStarred && target.classList.contains('fixed')) {
+        setShowStarred(false);
+      }
     };
 
     document.addEventListener('mousedown', handleModalClickOutside);
     return () => {
       document.removeEventListener('mousedown', handleModalClickOutside);
     };
-  }, [showSettings, showNewGroup, showPrivacy, showStorage, showHelp]);
+  }, [showSettings, showNewGroup, showPrivacy, showStorage, showHelp, messageInfoId, showGroupInfo, showBroadcasts, showStarred]);
+
+  useEffect(() => {
+    const wa_id = selectedContact?.wa_id;
+    setSelectedGroup(null);
+    setShowGroupInfo(false);
+    if (!wa_id || !isGroupId(wa_id)) return;
+
+    let cancelled = false;
+    axios.get(`${config.apiUrl}/api/groups/${wa_id}`)
+      .then(response => {
+        // A groupUpdate that arrived meanwhile is newer
+        if (!cancelled) setSelectedGroup(current => current ?? response.data);
+      })
+      .catch(error => console.error('Error loading group:', error));
+    return () => {
+      cancelled = true;
+    };
+  }, [selectedContact?.wa_id]);
 
   const loadContacts = async () => {
     try {
-      // Load contacts from production API
-      const response = await axios.get('https://whatsaapweb.onrender.com/api/contacts');
-      const apiContacts = response.data;
-
-      // Load last message for each contact
-      const contactsWithMessages: Contact[] = await Promise.all(
-        apiContacts.map(async (contact: any) => {
-          try {
-            // Get messages for this contact
-            const messagesResponse = await axios.get(`https://whatsaapweb.onrender.com/api/messages/${contact.wa_id}`);
-            const messages = messagesResponse.data;
-
-            // Get the last message
-            const lastMessage = messages.length > 0 ? messages[messages.length - 1] : null;
-
-            return {
-              wa_id: contact.wa_id,
-              profile_name: contact.profile_name,
-              unreadCount: contact.unreadCount || 0,
-              lastMessage: lastMessage ? {
-                _id: lastMessage._id,
-                id: lastMessage.id,
-                from: lastMessage.from,
-                to: lastMessage.to,
-                text: lastMessage.text,
-                timestamp: lastMessage.timestamp,
-                type: lastMessage.type,
-                status: lastMessage.status,
-                wa_id: lastMessage.wa_id,
-                profile_name: lastMessage.profile_name
-              } : undefined
-            };
-          } catch (error) {
-            console.error(`Error loading messages for ${contact.wa_id}:`, error);
-            return {
-              wa_id: contact.wa_id,
-              profile_name: contact.profile_name,
-              unreadCount: contact.unreadCount || 0,
-              lastMessage: undefined
-            };
-          }
-        })
-      );
+      // One call returns every conversation with its latest message
+      const response = await axios.get(`${config.apiUrl}/api/conversations`, {
+        params: withAccount(accountIdRef.current, { view: inboxViewRef.current })
+      });
+      const page: ConversationPage = response.data;
 
-      setContacts(contactsWithMessages);
+      setContacts(page.conversations.map(toContact));
+      setConversationsCursor(page.has_more ? page.before : null);
     } catch (error) {
       console.error('Error loading contacts:', error);
       // Fallback to mock data if API fails
@@ -279,25 +955,21 @@ function App() {
 
   const loadMessages = async (wa_id: string) => {
     try {
-      // Load messages from production API
-      const response = await axios.get(`https://whatsaapweb.onrender.com/api/messages/${wa_id}`);
-      const apiMessages = response.data;
-
-      // Transform API data to match our interface
-      const messages: Message[] = apiMessages.map((msg: any) => ({
-        _id: msg._id,
-        id: msg.id,
-        from: msg.from,
-        to: msg.to,
-        text: msg.text,
-        timestamp: msg.timestamp,
-        type: msg.type,
-        status: msg.status,
-        wa_id: msg.wa_id,
-        profile_name: msg.profile_name
-      }));
-
-      setMessages(messages);
+      // Load messages from the API
+      openChatRef.current = wa_id;
+      stickToBottomRef.current = true;
+      newerCursorRef.current = null;
+      setHighlightedMessageId(null);
+      const response = await axios.get(`${config.apiUrl}/api/messages/${wa_id}`, {
+        params: withAccount(accountIdRef.current, { limit: MESSAGE_PAGE_SIZE })
+      });
+      const page: MessagePage = response.data;
+      // Messages keep their full type-specific payload (location, contacts, ...)
+      const messages = page.messages.filter(msg => msg.type !== 'reaction');
+      const unsent = await unsentMessages(agentIdRef.current, accountIdRef.current, wa_id);
+
+      setMessages(unsent.reduce(mergeMessage, messages));
+      setOlderCursor(page.has_more_before ? page.before : null);
     } catch (error) {
       console.error('Error loading messages:', error);
       // Fallback to mock data if API fails
@@ -312,7 +984,7 @@ function App() {
           type: 'text',
           status: 'read',
           wa_id: wa_id,
-          profile_name: contacts.find(c => c.wa_id === wa_id)?.profile_name || ''
+          profile_name: contactsRef.current.find(c => c.wa_id === wa_id)?.profile_name || ''
         },
         {
           _id: '2',
@@ -335,149 +1007,580 @@ function App() {
           type: 'text',
           status: 'delivered',
           wa_id: wa_id,
-          profile_name: contacts.find(c => c.wa_id === wa_id)?.profile_name || ''
+          profile_name: contactsRef.current.find(c => c.wa_id === wa_id)?.profile_name || ''
         }
       ];
       setMessages(mockMessages);
     }
   };
 
-  const updateContactLastMessage = (message: Message) => {
-    setContacts(prev =>
-      prev.map(contact =>
-        contact.wa_id === message.wa_id
-          ? { ...contact, lastMessage: message, unreadCount: message.from !== 'me' ? contact.unreadCount + 1 : contact.unreadCount }
-          : contact
-      )
-    );
+  const loadOlderMessages = async () => {
+    const wa_id = openChatRef.current;
+    const container = messagesContainerRef.current;
+    if (!wa_id || !olderCursor || loadingOlder || !container) return;
+
+    setLoadingOlder(true);
+    try {
+      const response = await axios.get(`${config.apiUrl}/api/messages/${wa_id}`, {
+        params: withAccount(accountIdRef.current, { before: olderCursor, limit: MESSAGE_PAGE_SIZE })
+      });
+      const page: MessagePage = response.data;
+
+      // The user may have switched chats while the page was loading
+      if (openChatRef.current !== wa_id) return;
+
+      scrollAnchorRef.current = { height: container.scrollHeight, top: container.scrollTop };
+      setMessages(prev => [...page.messages.filter(msg => msg.type !== 'reaction'), ...prev]);
+      setOlderCursor(page.has_more_before ? page.before : null);
+    } catch (error) {
+      console.error('Error loading older messages:', error);
+    } finally {
+      setLoadingOlder(false);
+    }
   };
 
-  const handleContactClick = (contact: Contact) => {
+  const handleMessagesScroll = (event: React.UIEvent<HTMLDivElement>) => {
+    const container = event.currentTarget;
+    stickToBottomRef.current = container.scrollHeight - container.scrollTop - container.clientHeight < 80;
+    if (container.scrollTop < 120) {
+      loadOlderMessages();
+    }
+    if (container.scrollHeight - container.scrollTop - container.clientHeight < 120) {
+      loadNewerMessages();
+    }
+  };
+
+  const loadNewerMessages = async () => {
+    const wa_id = openChatRef.current;
+    if (!wa_id || !newerCursorRef.current || loadingNewerRef.current) return;
+
+    loadingNewerRef.current = true;
+    try {
+      const response = await axios.get(`${config.apiUrl}/api/messages/${wa_id}`, {
+        params: withAccount(accountIdRef.current, { after: newerCursorRef.current, limit: MESSAGE_PAGE_SIZE })
+      });
+      const page: MessagePage = response.data;
+      if (openChatRef.current !== wa_id) return;
+
+      newerCursorRef.current = page.has_more_after ? page.after : null;
+      setMessages(prev => [
+        ...prev,
+        ...page.messages.filter(msg => msg.type !== 'reaction' && !prev.some(m => m._id === msg._id))
+      ]);
+    } catch (error) {
+      console.error('Error loading newer messages:', error);
+    } finally {
+      loadingNewerRef.current = false;
+    }
+  };
+
+  // Opens the message's conversation with the message in the middle; used by
+  // search results and starred messages
+  const jumpToMessage = async (result: Pick<SearchResult, 'message' | 'cursor'> & { profile_name?: string }) => {
+    const { message, cursor } = result;
+    const contact = contacts.find(c => c.wa_id === message.wa_id)
+      || { wa_id: message.wa_id, profile_name: result.profile_name || message.profile_name || message.wa_id, unreadCount: 0 };
+
     setSelectedContact(contact);
-    loadMessages(contact.wa_id);
-    // Mark as read
+    openChatRef.current = message.wa_id;
+    stickToBottomRef.current = false;
+
+    try {
+      const half = Math.ceil(MESSAGE_PAGE_SIZE / 2);
+      const [older, newer] = await Promise.all([
+        axios.get(`${config.apiUrl}/api/messages/${message.wa_id}`, { params: withAccount(accountIdRef.current, { before: cursor, limit: half }) }),
+        axios.get(`${config.apiUrl}/api/messages/${message.wa_id}`, { params: withAccount(accountIdRef.current, { after: cursor, limit: half }) })
+      ]);
+      const olderPage: MessagePage = older.data;
+      const newerPage: MessagePage = newer.data;
+      if (openChatRef.current !== message.wa_id) return;
+
+      setMessages([...olderPage.messages, message, ...newerPage.messages].filter(msg => msg.type !== 'reaction'));
+      setOlderCursor(olderPage.has_more_before ? olderPage.before : null);
+      newerCursorRef.current = newerPage.has_more_after ? newerPage.after : null;
+      setHighlightedMessageId(message._id);
+    } catch (error) {
+      console.error('Error opening message:', error);
+    }
+  };
+
+  useEffect(() => {
+    openChatRef.current = selectedContact?.wa_id ?? null;
+  }, [selectedContact]);
+
+  // Messages, typing and presence for the open chat come from its room
+  useEffect(() => {
+    const wa_id = selectedContact?.wa_id;
+    setViewers([]);
+    setTypingAgents([]);
+    typingTimersRef.current.forEach(timer => clearTimeout(timer));
+    typingTimersRef.current.clear();
+    if (!wa_id) return;
+
+    socket.emit('join-chat', { phone_number_id: accountIdRef.current, wa_id });
+    return () => {
+      socket.emit('leave-chat');
+    };
+  }, [selectedContact?.wa_id]);
+
+  // Signs the media URLs the last render asked for, in one request
+  useEffect(() => {
+    const urls = [...unsignedMediaRef.current].filter(url => !signingMediaRef.current.has(url));
+    unsignedMediaRef.current.clear();
+    if (urls.length === 0) return;
+
+    urls.forEach(url => signingMediaRef.current.add(url));
+    axios.post(`${config.apiUrl}/api/media/signed-urls`, { urls })
+      .then(response => setSignedMediaUrls(prev => ({ ...prev, ...response.data.urls })))
+      .catch(error => console.error('Error signing media URLs:', error))
+      .finally(() => urls.forEach(url => signingMediaRef.current.delete(url)));
+  });
+
+  useEffect(() => {
+    if (!highlightedMessageId) return;
+
+    document.getElementById(`message-${highlightedMessageId}`)?.scrollIntoView({ block: 'center' });
+    const timer = setTimeout(() => setHighlightedMessageId(null), 3000);
+    return () => clearTimeout(timer);
+  }, [highlightedMessageId]);
+
+  // Searches every conversation (or just the open one in search mode) as the
+  // query settles
+  useEffect(() => {
+    const query = searchQuery.trim();
+    if (query.length < 2) {
+      setSearchResults([]);
+      return;
+    }
+
+    let cancelled = false;
+    const timer = setTimeout(async () => {
+      try {
+        const response = await axios.get(`${config.apiUrl}/api/search`, {
+          params: {
+            q: query,
+            phone_number_id: accountId ?? undefined,
+            wa_id: searchMode ? selectedContact?.wa_id : undefined,
+            type: searchFilters.type || undefined,
+            since: searchFilters.since || undefined,
+            until: searchFilters.until ? `${searchFilters.until}T23:59:59.999` : undefined
+          }
+        });
+        if (!cancelled) {
+          setSearchResults(response.data.results);
+        }
+      } catch (error) {
+        console.error('Error searching messages:', error);
+      }
+    }, 300);
+
+    return () => {
+      cancelled = true;
+      clearTimeout(timer);
+    };
+  }, [searchQuery, searchFilters, searchMode, selectedContact?.wa_id, accountId]);
+
+  // Keep the view steady when older messages are prepended, and follow new
+  // messages only while the user is already at the bottom
+  useLayoutEffect(() => {
+    const container = messagesContainerRef.current;
+    if (!container) return;
+
+    if (scrollAnchorRef.current) {
+      container.scrollTop = container.scrollHeight - scrollAnchorRef.current.height + scrollAnchorRef.current.top;
+      scrollAnchorRef.current = null;
+    } else if (stickToBottomRef.current) {
+      container.scrollTop = container.scrollHeight;
+    }
+  }, [messages]);
+
+  const loadMoreConversations = async () => {
+    if (!conversationsCursor || loadingConversations) return;
+
+    setLoadingConversations(true);
+    try {
+      const response = await axios.get(`${config.apiUrl}/api/conversations`, {
+        params: withAccount(accountIdRef.current, { before: conversationsCursor, view: inboxViewRef.current })
+      });
+      const page: ConversationPage = response.data;
+
+      // Live updates may already have moved some of these to the top
+      setContacts(prev => [
+        ...prev,
+        ...page.conversations.map(toContact).filter(contact => !prev.some(c => c.wa_id === contact.wa_id))
+      ]);
+      setConversationsCursor(page.has_more ? page.before : null);
+    } catch (error) {
+      console.error('Error loading conversations:', error);
+    } finally {
+      setLoadingConversations(false);
+    }
+  };
+
+  const handleContactsScroll = (event: React.UIEvent<HTMLDivElement>) => {
+    const container = event.currentTarget;
+    if (container.scrollHeight - container.scrollTop - container.clientHeight < 120) {
+      loadMoreConversations();
+    }
+  };
+
+  // Moves the conversation to the top of the sidebar, adding it when the
+  // message is the first one from a new number
+  const updateContactLastMessage = (message: Message) => {
+    setContacts(prev => {
+      const existing = prev.find(contact => contact.wa_id === message.wa_id);
+      const updated: Contact = existing
+        ? { ...existing, lastMessage: message, unreadCount: !isOwnMessage(message) ? existing.unreadCount + 1 : existing.unreadCount }
+        : { wa_id: message.wa_id, profile_name: message.profile_name || message.wa_id, lastMessage: message, unreadCount: !isOwnMessage(message) ? 1 : 0 };
+
+      // A first message from a new number starts an open, unassigned
+      // conversation, which only some views show
+      if (!existing && !['all', 'unassigned'].includes(inboxViewRef.current)) {
+        return prev;
+      }
+      return [updated, ...prev.filter(contact => contact.wa_id !== message.wa_id)];
+    });
+  };
+
+  // Assignment and state changes come back through conversationUpdate for
+  // every client, this one included
+  const changeConversation = async (action: string, body: object = {}) => {
+    if (!selectedContact) return;
+
+    try {
+      await axios.post(`${config.apiUrl}/api/conversations/${selectedContact.wa_id}/${action}`, body, {
+        params: withAccount(accountIdRef.current)
+      });
+    } catch (error) {
+      console.error(`Error updating conversation (${action}):`, error);
+      const reason = axios.isAxiosError(error) ? error.response?.data?.error : undefined;
+      alert(reason || 'Could not update the conversation');
+    }
+  };
+
+  const handleClaimConversation = () => changeConversation('claim');
+
+  const handleTransferConversation = (agentId: string) => {
+    setShowChatMenu(false);
+    changeConversation('transfer', { agent_id: agentId || null });
+  };
+
+  const handleConversationState = (state: ConversationState) => {
+    setShowChatMenu(false);
+    changeConversation('state', { state });
+  };
+
+  // Moves the server's read marker; other clients hear about it through
+  // conversationRead
+  const markConversationRead = async (wa_id: string) => {
     setContacts(prev =>
       prev.map(c =>
-        c.wa_id === contact.wa_id
+        c.wa_id === wa_id
           ? { ...c, unreadCount: 0 }
           : c
       )
     );
+
+    try {
+      await axios.post(`${config.apiUrl}/api/conversations/${wa_id}/read`, undefined, {
+        params: withAccount(accountIdRef.current)
+      });
+    } catch (error) {
+      console.error('Error marking conversation as read:', error);
+    }
+  };
+
+  // Each number has its own conversations, so switching starts from its list
+  const handleAccountChange = (id: string) => {
+    setAccountId(id);
+    setSelectedContact(null);
+    setMessages([]);
+    setSearchResults([]);
+  };
+
+  const handleContactClick = (contact: Contact) => {
+    setSelectedContact(contact);
+    loadMessages(contact.wa_id);
+    if (contact.unreadCount > 0) {
+      markConversationRead(contact.wa_id);
+    }
+  };
+
+  // Tells the other agents in the chat, at most every TYPING_REFRESH_MS
+  const handleComposerChange = (value: string) => {
+    setNewMessage(value);
+    const now = Date.now();
+    if (value && now - typingSentAtRef.current > TYPING_REFRESH_MS) {
+      typingSentAtRef.current = now;
+      socket.emit('typing', true);
+    }
+  };
+
+  const stopTyping = () => {
+    if (typingSentAtRef.current) {
+      typingSentAtRef.current = 0;
+      socket.emit('typing', false);
+    }
+  };
+
+  // Posts an outbox entry. The stored message replaces the optimistic bubble
+  // (the socket may have delivered it already) if its chat is still open:
+  // the agent may have switched chats since, and flushes send every chat's
+  // entries. Without a response the entry stays pending for the next flush;
+  // a rejection marks it failed. An entry whose POST is still in flight isn't
+  // posted a second time.
+  const deliverOutboxEntry = useCallback(async (entry: OutboxEntry<Message>) => {
+    if (sendingOutboxRef.current.has(entry.client_id)) return;
+    sendingOutboxRef.current.add(entry.client_id);
+
+    let failed: OutboxEntry<Message>;
+    try {
+      const response = await axios.post(`${config.apiUrl}/api/messages`, entry.request);
+      const stored: Message = response.data;
+
+      if (isInOpenChat(stored, openChatRef.current, accountIdRef.current ?? defaultAccountIdRef.current)) {
+        setMessages(prev => mergeMessage(prev, stored));
+      }
+      await removeOutboxEntry(entry.client_id);
+      return;
+    } catch (error) {
+      if (axios.isAxiosError(error) && !error.response) {
+        console.error('Message not sent yet, will retry when back online:', error.message);
+        return;
+      }
+      console.error('Error sending message:', error);
+      const reason = axios.isAxiosError(error) ? error.response?.data?.error : undefined;
+      failed = { ...entry, state: 'failed', error: reason || 'Message could not be sent' };
+    } finally {
+      sendingOutboxRef.current.delete(entry.client_id);
+    }
+
+    setMessages(prev => prev.map(msg => msg.client_id === entry.client_id ? toOutboxMessage(failed) : msg));
+    await saveOutboxEntry(failed).catch(error => console.error('Error updating the outbox:', error));
+  }, []);
+
+  // Resends everything still pending, oldest first
+  const flushOutbox = useCallback(async () => {
+    if (flushingOutboxRef.current) return;
+    flushingOutboxRef.current = true;
+    try {
+      const entries = await listOutboxEntries<Message>(agentIdRef.current);
+      for (const entry of entries.filter(e => e.state === 'pending')) {
+        await deliverOutboxEntry(entry);
+      }
+    } catch (error) {
+      console.error('Error flushing the outbox:', error);
+    } finally {
+      flushingOutboxRef.current = false;
+    }
+  }, [deliverOutboxEntry]);
+
+  // Shows the message as pending straight away and keeps it in the outbox
+  // until the server has stored it, across reloads if need be
+  const sendThroughOutbox = async (request: Record<string, unknown>, content: Partial<Message>) => {
+    if (!selectedContact) return;
+
+    const clientId = createClientId();
+    const entry: OutboxEntry<Message> = {
+      client_id: clientId,
+      agent_id: agentIdRef.current,
+      phone_number_id: accountIdRef.current,
+      wa_id: selectedContact.wa_id,
+      request: {
+        ...request,
+        wa_id: selectedContact.wa_id,
+        to: selectedContact.wa_id,
+        phone_number_id: accountIdRef.current ?? undefined,
+        client_id: clientId
+      },
+      message: {
+        _id: clientId,
+        id: clientId,
+        client_id: clientId,
+        ...ownMessageFields,
+        to: selectedContact.wa_id,
+        timestamp: Date.now(),
+        type: 'text',
+        wa_id: selectedContact.wa_id,
+        ...content
+      },
+      state: 'pending',
+      created_at: Date.now()
+    };
+
+    setMessages(prev => mergeMessage(prev, toOutboxMessage(entry)));
+    updateContactLastMessage(toOutboxMessage(entry));
+
+    try {
+      await saveOutboxEntry(entry);
+    } catch (error) {
+      // Still sent, just not kept across a reload
+      console.error('Error saving to the outbox:', error);
+    }
+    await deliverOutboxEntry(entry);
   };
 
+  // Unsent messages go out as soon as the connection is back
+  useEffect(() => {
+    const flush = () => {
+      flushOutbox();
+    };
+
+    window.addEventListener('online', flush);
+    socket.on('connect', flush);
+    flush();
+    return () => {
+      window.removeEventListener('online', flush);
+      socket.off('connect', flush);
+    };
+  }, [flushOutbox]);
+
   const handleSendMessage = async (e: React.FormEvent) => {
     e.preventDefault();
     if (!newMessage.trim() || !selectedContact) return;
+    stopTyping();
 
-    const message: Message = {
-      _id: Date.now().toString(),
-      id: `msg_${Date.now()}`,
-      from: 'me',
-      to: selectedContact.wa_id,
-      text: { body: newMessage.trim() },
-      timestamp: Date.now(),
-      type: 'text',
-      status: 'sent',
-      wa_id: selectedContact.wa_id
-    };
-
-    setMessages(prev => [...prev, message]);
-    updateContactLastMessage(message);
+    const text = { body: newMessage.trim() };
     setNewMessage('');
     setShowEmojiPicker(false);
+    await sendThroughOutbox({ type: 'text', text }, { type: 'text', text });
+  };
+
+  const handleTemplatePickerClick = async () => {
+    setShowTemplatePicker(!showTemplatePicker);
+    setShowAttachmentMenu(false);
+    if (showTemplatePicker) return;
+
+    try {
+      const response = await axios.get(`${config.apiUrl}/api/templates`);
+      setTemplates(response.data);
+    } catch (error) {
+      console.error('Error loading templates:', error);
+    }
+  };
+
+  const handleSelectTemplate = (template: Template | null) => {
+    setSelectedTemplate(template);
+    setTemplateParams({});
+  };
+
+  const handleTemplateParamChange = (component: string, index: number, value: string) => {
+    setTemplateParams(prev => {
+      const values = [...(prev[component] || [])];
+      values[index - 1] = value;
+      return { ...prev, [component]: values };
+    });
+  };
+
+  // Mirrors the server's rendering so the agent sees what will be sent
+  const renderTemplateText = (text: string | undefined, values: string[] = []) =>
+    text?.replace(/\{\{(\d+)\}\}/g, (placeholder, index) => values[parseInt(index) - 1] || placeholder);
+
+  const handleSendTemplate = async () => {
+    if (!selectedTemplate || !selectedContact) return;
 
-    // Send message to production API
     try {
-      await axios.post('https://whatsaapweb.onrender.com/api/messages', {
+      const response = await axios.post(`${config.apiUrl}/api/messages`, {
         wa_id: selectedContact.wa_id,
-        text: { body: newMessage.trim() },
-        from: 'me',
+        phone_number_id: accountId ?? undefined,
         to: selectedContact.wa_id,
-        type: 'text'
+        type: 'template',
+        template_id: selectedTemplate._id,
+        parameters: templateParams
       });
+      const stored: Message = response.data;
+
+      // The agent may have switched chats, or numbers, while it was sent
+      const viewedAccountId = accountIdRef.current ?? defaultAccountIdRef.current;
+      if (isInOpenChat(stored, openChatRef.current, viewedAccountId)) {
+        setMessages(prev => mergeMessage(prev, stored));
+      }
+      if (!isOtherAccount(stored, viewedAccountId)) {
+        updateContactLastMessage(stored);
+      }
+      setShowTemplatePicker(false);
+      handleSelectTemplate(null);
     } catch (error) {
-      console.error('Error sending message to API:', error);
+      console.error('Error sending template:', error);
+      alert('Could not send the template. Check that every placeholder is filled in.');
     }
+  };
 
-    // Simulate status updates
-    setTimeout(() => {
-      setMessages(prev =>
-        prev.map(msg =>
-          msg._id === message._id
-            ? { ...msg, status: 'delivered' }
-            : msg
-        )
-      );
-    }, 1000);
+  // A message the server rejected is still in the outbox (it has no stored
+  // id yet) and is posted again; a stored one is re-queued on the server
+  const handleRetryMessage = async (message: Message) => {
+    if (message.client_id && message._id === message.client_id) {
+      try {
+        const entries = await listOutboxEntries<Message>(agentIdRef.current);
+        const entry = entries.find(e => e.client_id === message.client_id);
+        if (!entry) return;
+
+        const pending: OutboxEntry<Message> = { ...entry, state: 'pending', error: undefined };
+        setMessages(prev => prev.map(msg => msg.client_id === entry.client_id ? toOutboxMessage(pending) : msg));
+        await saveOutboxEntry(pending);
+        await deliverOutboxEntry(pending);
+      } catch (error) {
+        console.error('Error retrying message:', error);
+      }
+      return;
+    }
 
-    setTimeout(() => {
-      setMessages(prev =>
-        prev.map(msg =>
-          msg._id === message._id
-            ? { ...msg, status: 'read' }
-            : msg
-        )
-      );
-    }, 3000);
+    try {
+      await axios.post(`${config.apiUrl}/api/messages/${message._id}/retry`);
+    } catch (error) {
+      console.error('Error retrying message:', error);
+    }
   };
 
-  const handleEmojiClick = (emojiObject: any) => {
+  const handleEmojiClick = (emojiObject: EmojiClickData) => {
     setNewMessage(prev => prev + emojiObject.emoji);
   };
 
-  const handleFileUpload = (event: React.ChangeEvent<HTMLInputElement>) => {
+  // Uploads the file (plus a browser-made thumbnail) to the media store and
+  // sends a message that references it by media id
+  const handleFileUpload = async (event: React.ChangeEvent<HTMLInputElement>) => {
     const file = event.target.files?.[0];
+    event.target.value = '';
     if (!file || !selectedContact) return;
 
-    const reader = new FileReader();
-    reader.onload = (e) => {
-      const fileUrl = e.target?.result as string;
+    setShowAttachmentMenu(false);
+
+    try {
+      const formData = new FormData();
+      formData.append('file', file);
+      const thumbnail = await createThumbnail(file);
+      if (thumbnail) {
+        formData.append('thumbnail', thumbnail, 'thumbnail.jpg');
+      }
+
+      const upload = await axios.post(`${config.apiUrl}/api/media`, formData);
+      const media = {
+        media_id: upload.data.id,
+        url: upload.data.url,
+        thumbnail_url: upload.data.thumbnail_url,
+        mime_type: upload.data.mime_type
+      };
+
       let messageType: 'image' | 'video' | 'document' = 'document';
-      let messageData: any = {};
+      let messageData: Partial<Message> = {};
 
       if (file.type.startsWith('image/')) {
         messageType = 'image';
-        messageData = {
-          image: {
-            url: fileUrl,
-            caption: file.name
-          }
-        };
+        messageData = { image: { ...media, caption: file.name } };
       } else if (file.type.startsWith('video/')) {
         messageType = 'video';
-        messageData = {
-          video: {
-            url: fileUrl,
-            caption: file.name
-          }
-        };
+        messageData = { video: { ...media, caption: file.name } };
       } else {
-        messageData = {
-          document: {
-            url: fileUrl,
-            filename: file.name,
-            mimetype: file.type
-          }
-        };
+        messageData = { document: { ...media, filename: file.name, mimetype: file.type } };
       }
 
-      const message: Message = {
-        _id: Date.now().toString(),
-        id: `msg_${Date.now()}`,
-        from: 'me',
-        to: selectedContact.wa_id,
-        ...messageData,
-        timestamp: Date.now(),
-        type: messageType,
-        status: 'sent',
-        wa_id: selectedContact.wa_id
-      };
-
-      setMessages(prev => [...prev, message]);
-      updateContactLastMessage(message);
-      setShowAttachmentMenu(false);
-    };
-    reader.readAsDataURL(file);
+      // Uploaded now; the message itself can wait in the outbox
+      await sendThroughOutbox({ type: messageType, ...messageData }, { type: messageType, ...messageData });
+    } catch (error) {
+      console.error('Error uploading media:', error);
+      const reason = axios.isAxiosError(error) ? error.response?.data?.error : undefined;
+      alert(reason ? `Could not send ${file.name}: ${reason}` : `Could not send ${file.name}`);
+    }
   };
 
   const handleVoiceMessage = () => {
@@ -490,7 +1593,7 @@ function App() {
         const message: Message = {
           _id: Date.now().toString(),
           id: `msg_${Date.now()}`,
-          from: 'me',
+          ...ownMessageFields,
           to: selectedContact.wa_id,
           audio: {
             url: 'data:audio/wav;base64,UklGRnoGAABXQVZFZm10IBAAAAABAAEAQB8AAEAfAAABAAgAZGF0YQoGAACBhYqFbF1fdJivrJBhNjVgodDbq2EcBj+a2/LDciUFLIHO8tiJNwgZaLvt559NEAxQp+PwtmMcBjiR1/LMeSwFJHfH8N2QQAoUXrTp66hVFApGn+DyvmwhBSuBzvLZiTYIG2m98OScTgwOUarm7blmGgU7k9n1unEiBC13yO/eizEIHWq+8+OWT',
@@ -498,7 +1601,6 @@ function App() {
           },
           timestamp: Date.now(),
           type: 'audio',
-          status: 'sent',
           wa_id: selectedContact.wa_id
         };
         setMessages(prev => [...prev, message]);
@@ -540,19 +1642,46 @@ function App() {
     }
   };
 
-  const handleBlockContact = () => {
-    if (selectedContact) {
-      // Simulate blocking
-      alert(`${selectedContact.profile_name} has been blocked`);
-      setShowChatMenu(false);
+  const isBlocked = (wa_id?: string) => blockedContacts.some(b => b.wa_id === wa_id);
+
+  // The list itself is updated by blockUpdate
+  const handleUnblockContact = async (wa_id: string) => {
+    try {
+      await axios.delete(`${config.apiUrl}/api/conversations/${wa_id}/block`, { params: withAccount(accountIdRef.current) });
+    } catch (error) {
+      console.error('Error unblocking contact:', error);
     }
   };
 
-  const handleReportContact = () => {
-    if (selectedContact) {
-      // Simulate reporting
+  const handleBlockContact = async () => {
+    if (!selectedContact) return;
+    setShowChatMenu(false);
+    if (isBlocked(selectedContact.wa_id)) {
+      await handleUnblockContact(selectedContact.wa_id);
+      return;
+    }
+    if (!window.confirm(`Block ${selectedContact.profile_name}? Their messages won't reach the inbox and nothing can be sent to them.`)) return;
+
+    try {
+      await axios.post(`${config.apiUrl}/api/conversations/${selectedContact.wa_id}/block`, null, { params: withAccount(accountIdRef.current) });
+    } catch (error) {
+      console.error('Error blocking contact:', error);
+      alert('Could not block the contact');
+    }
+  };
+
+  const handleReportContact = async () => {
+    if (!selectedContact) return;
+    setShowChatMenu(false);
+    const reason = window.prompt(`Why are you reporting ${selectedContact.profile_name}? Their last messages are sent with the report.`);
+    if (reason === null) return;
+
+    try {
+      await axios.post(`${config.apiUrl}/api/conversations/${selectedContact.wa_id}/report`, { reason }, { params: withAccount(accountIdRef.current) });
       alert(`Report submitted for ${selectedContact.profile_name}`);
-      setShowChatMenu(false);
+    } catch (error) {
+      console.error('Error reporting contact:', error);
+      alert('Could not submit the report');
     }
   };
 
@@ -562,9 +1691,85 @@ function App() {
     setShowContactMenu(false);
   };
 
-  const handleNewBroadcast = () => {
-    alert('New broadcast feature coming soon!');
+  const handleNewBroadcast = async () => {
+    setShowBroadcasts(true);
     setShowContactMenu(false);
+
+    try {
+      const [lists, sent, templateList] = await Promise.all([
+        axios.get(`${config.apiUrl}/api/broadcast-lists`, { params: withAccount(accountId) }),
+        axios.get(`${config.apiUrl}/api/campaigns`, { params: withAccount(accountId) }),
+        axios.get(`${config.apiUrl}/api/templates`)
+      ]);
+      setBroadcastLists(lists.data);
+      setCampaigns(sent.data);
+      setTemplates(templateList.data);
+    } catch (error) {
+      console.error('Error loading broadcasts:', error);
+    }
+  };
+
+  // Uploads the CSV (`phone,name` rows, header optional) as a new list
+  const handleCreateBroadcastList = async () => {
+    if (!broadcastListName.trim() || !broadcastListFile) return;
+
+    try {
+      const formData = new FormData();
+      formData.append('name', broadcastListName.trim());
+      formData.append('file', broadcastListFile);
+      if (accountId) formData.append('phone_number_id', accountId);
+
+      const response = await axios.post(`${config.apiUrl}/api/broadcast-lists`, formData);
+      const { skipped, ...list }: BroadcastList & { skipped: { line: number; reason: string }[] } = response.data;
+
+      setBroadcastLists(prev => [list, ...prev]);
+      setBroadcastListName('');
+      setBroadcastListFile(null);
+      setCampaignDraft(prev => ({ ...prev, list_id: list.id }));
+      if (skipped.length > 0) {
+        alert(`Skipped ${skipped.length} row(s):\n${skipped.map(row => `Line ${row.line}: ${row.reason}`).join('\n')}`);
+      }
+    } catch (error) {
+      console.error('Error creating broadcast list:', error);
+      const reason = axios.isAxiosError(error) ? error.response?.data?.error : undefined;
+      alert(reason ? `Could not create the list: ${reason}` : 'Could not create the list');
+    }
+  };
+
+  const handleDeleteBroadcastList = async (list: BroadcastList) => {
+    if (!confirm(`Delete the list ${list.name}? Campaigns already sent to it are kept.`)) return;
+
+    try {
+      await axios.delete(`${config.apiUrl}/api/broadcast-lists/${list.id}`);
+      setBroadcastLists(prev => prev.filter(l => l.id !== list.id));
+    } catch (error) {
+      console.error('Error deleting broadcast list:', error);
+    }
+  };
+
+  const handleSendCampaign = async () => {
+    const template = templates.find(t => t._id === campaignDraft.template_id);
+    const content = template
+      ? { type: 'template', template_id: template._id, parameters: campaignParams }
+      : { type: 'text', text: { body: campaignDraft.body } };
+
+    try {
+      const response = await axios.post(`${config.apiUrl}/api/campaigns`, {
+        list_id: campaignDraft.list_id,
+        name: campaignDraft.name.trim() || undefined,
+        ...content
+      });
+      const campaign: Campaign = response.data;
+
+      // campaignUpdate may have added it already
+      setCampaigns(prev => prev.some(c => c.id === campaign.id) ? prev : [campaign, ...prev]);
+      setCampaignDraft(prev => ({ ...prev, name: '', body: '' }));
+      setCampaignParams({});
+    } catch (error) {
+      console.error('Error sending campaign:', error);
+      const reason = axios.isAxiosError(error) ? error.response?.data?.error : undefined;
+      alert(reason ? `Could not send the campaign: ${reason}` : 'Could not send the campaign');
+    }
   };
 
   const handleWhatsAppWeb = () => {
@@ -572,9 +1777,42 @@ function App() {
     setShowContactMenu(false);
   };
 
-  const handleStarredMessages = () => {
-    alert('Starred messages feature coming soon!');
+  const handleStarredMessages = async () => {
+    setShowStarred(true);
     setShowContactMenu(false);
+    try {
+      const response = await axios.get(`${config.apiUrl}/api/starred-messages`, { params: withAccount(accountIdRef.current) });
+      setStarredMessages(response.data);
+    } catch (error) {
+      console.error('Error loading starred messages:', error);
+    }
+  };
+
+  const handleOpenStarredMessage = (starred: StarredMessage) => {
+    setShowStarred(false);
+    jumpToMessage(starred);
+  };
+
+  // Stars are the agent's own, so they only change locally; a failed request
+  // puts the bubble back the way it was
+  const handleToggleStar = async (message: Message) => {
+    const starred = !message.starred;
+    setMessageMenuId(null);
+    setMessages(prev => prev.map(msg => msg._id === message._id ? { ...msg, starred } : msg));
+    if (!starred) {
+      setStarredMessages(prev => prev.filter(s => s.message._id !== message._id));
+    }
+
+    try {
+      if (starred) {
+        await axios.put(`${config.apiUrl}/api/messages/${message._id}/star`);
+      } else {
+        await axios.delete(`${config.apiUrl}/api/messages/${message._id}/star`);
+      }
+    } catch (error) {
+      console.error('Error starring message:', error);
+      setMessages(prev => prev.map(msg => msg._id === message._id ? { ...msg, starred: message.starred } : msg));
+    }
   };
 
   const handleSettings = () => {
@@ -582,43 +1820,82 @@ function App() {
     setShowContactMenu(false);
   };
 
-  const handleCreateGroup = () => {
-    if (groupName.trim() && selectedContactsForGroup.length > 0) {
-      // Create a new group contact
-      const selectedContactNames = contacts
-        .filter(contact => selectedContactsForGroup.includes(contact.wa_id))
-        .map(contact => contact.profile_name);
-
-      const newGroup: Contact = {
-        wa_id: `group_${Date.now()}`,
-        profile_name: groupName.trim(),
-        lastMessage: {
-          _id: `msg_${Date.now()}`,
-          id: `msg_${Date.now()}`,
-          from: 'system',
-          to: `group_${Date.now()}`,
-          text: { body: `Group created with ${selectedContactsForGroup.length} members: ${selectedContactNames.join(', ')}` },
-          timestamp: Date.now(),
-          type: 'text',
-          status: 'sent',
-          wa_id: `group_${Date.now()}`,
-          profile_name: groupName.trim()
-        },
-        unreadCount: 0
-      };
+  const handleCreateGroup = async () => {
+    if (!groupName.trim() || selectedContactsForGroup.length === 0) {
+      alert('Please enter a group name and select at least one contact.');
+      return;
+    }
 
-      // Add the group to contacts list
-      setContacts(prev => [newGroup, ...prev]);
+    try {
+      const response = await axios.post(`${config.apiUrl}/api/groups`, {
+        name: groupName.trim(),
+        members: selectedContactsForGroup,
+        phone_number_id: accountId ?? undefined
+      });
+      const group: Group = response.data;
+      const contact: Contact = { wa_id: group.id, profile_name: group.name, unreadCount: 0, state: 'open', assignee: null };
 
-      // Close modal and reset form
+      // groupUpdate may have added it already
+      setContacts(prev => prev.some(c => c.wa_id === group.id) ? prev : [contact, ...prev]);
       setShowNewGroup(false);
       setGroupName('');
       setSelectedContactsForGroup([]);
-    } else {
-      alert('Please enter a group name and select at least one contact.');
+      handleContactClick(contact);
+    } catch (error) {
+      console.error('Error creating group:', error);
+      const reason = axios.isAxiosError(error) ? error.response?.data?.error : undefined;
+      alert(reason ? `Could not create the group: ${reason}` : 'Could not create the group');
+    }
+  };
+
+  const handleGroupInfo = () => {
+    setGroupNameDraft(selectedGroup?.name || '');
+    setShowGroupInfo(true);
+    setShowChatMenu(false);
+  };
+
+  const canManageGroup = (group: Group) =>
+    session.agent.role === 'admin' || group.admins.some(admin => admin.id === session.agent.id);
+
+  // Other agents hear about the change through groupUpdate
+  const updateGroup = async (request: () => Promise<{ data: Group }>, failure: string) => {
+    try {
+      const response = await request();
+      setSelectedGroup(response.data);
+    } catch (error) {
+      console.error(`${failure}:`, error);
+      const reason = axios.isAxiosError(error) ? error.response?.data?.error : undefined;
+      alert(reason ? `${failure}: ${reason}` : failure);
     }
   };
 
+  const groupUrl = (path = '') => `${config.apiUrl}/api/groups/${selectedGroup?.id}${path}`;
+
+  const handleRenameGroup = () => updateGroup(
+    () => axios.patch(groupUrl(), { name: groupNameDraft.trim() }),
+    'Could not rename the group'
+  );
+
+  const handleAddGroupMember = (wa_id: string) => updateGroup(
+    () => axios.post(groupUrl('/members'), { members: [wa_id] }),
+    'Could not add the member'
+  );
+
+  const handleRemoveGroupMember = (wa_id: string) => updateGroup(
+    () => axios.delete(groupUrl(`/members/${wa_id}`)),
+    'Could not remove the member'
+  );
+
+  const handleAddGroupAdmin = (agentId: string) => updateGroup(
+    () => axios.post(groupUrl('/admins'), { agent_id: agentId }),
+    'Could not add the admin'
+  );
+
+  const handleRemoveGroupAdmin = (agentId: string) => updateGroup(
+    () => axios.delete(groupUrl(`/admins/${agentId}`)),
+    'Could not remove the admin'
+  );
+
   const handleToggleContactForGroup = (contactId: string) => {
     setSelectedContactsForGroup(prev =>
       prev.includes(contactId)
@@ -668,43 +1945,109 @@ function App() {
     }
   };
 
-  const getStatusIcon = (status?: string) => {
+  const getFailureReason = (message: Message) => {
+    const error = message.errors?.[0];
+    if (!error) return 'Message failed to send';
+    return error.error_data?.details || error.message || `${error.title} (${error.code})`;
+  };
+
+  const getStatusIcon = (status?: string, failureReason?: string) => {
     switch (status) {
+      case 'pending':
+        return <Clock className="w-4 h-4 text-gray-500" />;
+      case 'retrying':
+        return (
+          <span title={failureReason ? `Retrying: ${failureReason}` : 'Retrying'} className="inline-flex">
+            <RotateCw className="w-4 h-4 text-yellow-500 animate-spin" />
+          </span>
+        );
       case 'sent':
         return <Check className="w-4 h-4 text-gray-500" />;
       case 'delivered':
         return <CheckCheck className="w-4 h-4 text-gray-500" />;
       case 'read':
         return <CheckCheck className="w-4 h-4 text-blue-500" />;
+      case 'failed':
+        return (
+          <span title={failureReason} className="inline-flex">
+            <AlertCircle className="w-4 h-4 text-red-500" />
+          </span>
+        );
       default:
         return null;
     }
   };
 
+  // Media stored by our server is referenced by a relative /api/media/:id url.
+  // It is shown through a signed URL; missing or expiring ones are signed
+  // after the render that asked for them.
+  const mediaUrl = (url?: string) => {
+    if (!url?.startsWith('/')) return url;
+    const signed = signedMediaUrls[url];
+    if (!signed || signedUrlExpiry(signed) - Date.now() < MEDIA_URL_RENEW_MS) {
+      unsignedMediaRef.current.add(url);
+    }
+    return signed && `${config.apiUrl}${signed}`;
+  };
+
+  // Placeholder for inbound media that has only a WhatsApp media id so far
+  const renderMediaPlaceholder = (label: string, icon: React.ReactNode, media?: MediaPayload) => (
+    <div className={`flex items-center space-x-2 p-2 rounded-lg ${settings.darkMode ? 'bg-gray-700' : 'bg-gray-100'}`}>
+      {icon}
+      <div>
+        <p className={`text-sm font-medium ${settings.darkMode ? 'text-white' : 'text-gray-900'}`}>{label}</p>
+        {media?.caption && (
+          <p className={`text-xs ${settings.darkMode ? 'text-gray-400' : 'text-gray-500'}`}>{media.caption}</p>
+        )}
+      </div>
+    </div>
+  );
+
   const renderMessageContent = (message: Message) => {
     switch (message.type) {
+      case 'text':
+        return (
+          <div className={`max-w-xs lg:max-w-md px-4 py-2 rounded-lg shadow-sm ${isOwnMessage(message)
+            ? 'bg-green-500 text-white'
+            : settings.darkMode
+              ? 'bg-gray-700 text-white'
+              : 'bg-white text-gray-900'
+            }`}>
+            {message.text?.body}
+          </div>
+        );
       case 'image':
+        if (!message.image?.url) {
+          return renderMediaPlaceholder('Photo', <Image className="w-6 h-6 text-blue-500" />, message.image);
+        }
         return (
           <div className="max-w-xs">
-            <img
-              src={message.image?.url}
-              alt={message.image?.caption || 'Image'}
-              className="rounded-lg max-w-full"
-            />
-            {message.image?.caption && (
+            <a href={mediaUrl(message.image.url)} target="_blank" rel="noopener noreferrer">
+              <img
+                src={mediaUrl(message.image.thumbnail_url || message.image.url)}
+                alt={message.image.caption || 'Image'}
+                className="rounded-lg max-w-full"
+              />
+            </a>
+            {message.image.caption && (
               <p className="text-sm mt-1">{message.image.caption}</p>
             )}
           </div>
         );
       case 'video':
+        if (!message.video?.url) {
+          return renderMediaPlaceholder('Video', <Video className="w-6 h-6 text-purple-500" />, message.video);
+        }
         return (
           <div className="max-w-xs">
             <video
-              src={message.video?.url}
+              src={mediaUrl(message.video.url)}
+              poster={mediaUrl(message.video.thumbnail_url)}
+              preload="none"
               controls
               className="rounded-lg max-w-full"
             />
-            {message.video?.caption && (
+            {message.video.caption && (
               <p className="text-sm mt-1">{message.video.caption}</p>
             )}
           </div>
@@ -714,46 +2057,192 @@ function App() {
           <div className={`flex items-center space-x-2 p-2 rounded-lg ${settings.darkMode ? 'bg-gray-700' : 'bg-gray-100'}`}>
             <FileText className="w-6 h-6 text-blue-500" />
             <div>
-              <p className={`text-sm font-medium ${settings.darkMode ? 'text-white' : 'text-gray-900'}`}>{message.document?.filename}</p>
-              <p className={`text-xs ${settings.darkMode ? 'text-gray-400' : 'text-gray-500'}`}>{message.document?.mimetype}</p>
+              {message.document?.url ? (
+                <a
+                  href={mediaUrl(message.document.url)}
+                  target="_blank"
+                  rel="noopener noreferrer"
+                  className={`text-sm font-medium hover:underline ${settings.darkMode ? 'text-white' : 'text-gray-900'}`}
+                >
+                  {message.document.filename}
+                </a>
+              ) : (
+                <p className={`text-sm font-medium ${settings.darkMode ? 'text-white' : 'text-gray-900'}`}>{message.document?.filename}</p>
+              )}
+              <p className={`text-xs ${settings.darkMode ? 'text-gray-400' : 'text-gray-500'}`}>{message.document?.mimetype || message.document?.mime_type}</p>
             </div>
           </div>
         );
       case 'audio':
+        if (!message.audio?.url) {
+          return renderMediaPlaceholder('Voice message', <Mic className="w-6 h-6 text-gray-500" />);
+        }
         return (
           <div className={`flex items-center space-x-2 p-2 rounded-lg ${settings.darkMode ? 'bg-gray-700' : 'bg-gray-100'}`}>
             <div className="w-4 h-4 bg-blue-500 rounded-full animate-pulse"></div>
-            <audio src={message.audio?.url} controls className="h-8" />
-            <span className={`text-xs ${settings.darkMode ? 'text-gray-400' : 'text-gray-500'}`}>{message.audio?.duration}s</span>
+            <audio src={mediaUrl(message.audio.url)} controls className="h-8" />
+            {message.audio.duration !== undefined && (
+              <span className={`text-xs ${settings.darkMode ? 'text-gray-400' : 'text-gray-500'}`}>{message.audio.duration}s</span>
+            )}
           </div>
         );
-      default:
+      case 'sticker':
+        if (!message.sticker?.url) {
+          return renderMediaPlaceholder('Sticker', <Sticker className="w-6 h-6 text-yellow-500" />);
+        }
+        return <img src={mediaUrl(message.sticker.url)} alt="Sticker" className="w-32 h-32" />;
+      case 'location':
+        return (
+          <a
+            href={`https://www.google.com/maps?q=${message.location?.latitude},${message.location?.longitude}`}
+            target="_blank"
+            rel="noopener noreferrer"
+            className={`flex items-center space-x-2 p-2 rounded-lg ${settings.darkMode ? 'bg-gray-700' : 'bg-gray-100'}`}
+          >
+            <MapPin className="w-6 h-6 text-red-500" />
+            <div>
+              <p className={`text-sm font-medium ${settings.darkMode ? 'text-white' : 'text-gray-900'}`}>
+                {message.location?.name || 'Location'}
+              </p>
+              <p className={`text-xs ${settings.darkMode ? 'text-gray-400' : 'text-gray-500'}`}>
+                {message.location?.address || `${message.location?.latitude}, ${message.location?.longitude}`}
+              </p>
+            </div>
+          </a>
+        );
+      case 'contacts':
+        return (
+          <div className="space-y-1">
+            {message.contacts?.map((contact, index) => (
+              <div key={index} className={`flex items-center space-x-2 p-2 rounded-lg ${settings.darkMode ? 'bg-gray-700' : 'bg-gray-100'}`}>
+                <User className="w-6 h-6 text-green-500" />
+                <div>
+                  <p className={`text-sm font-medium ${settings.darkMode ? 'text-white' : 'text-gray-900'}`}>{contact.name.formatted_name}</p>
+                  {contact.phones?.map(phone => (
+                    <p key={phone.phone} className={`text-xs ${settings.darkMode ? 'text-gray-400' : 'text-gray-500'}`}>
+                      {phone.phone}{phone.type ? ` (${phone.type.toLowerCase()})` : ''}
+                    </p>
+                  ))}
+                </div>
+              </div>
+            ))}
+          </div>
+        );
+      case 'interactive':
+      case 'button': {
+        const reply = message.interactive?.button_reply || message.interactive?.list_reply;
+        return (
+          <div className={`max-w-xs lg:max-w-md px-4 py-2 rounded-lg shadow-sm border-l-4 border-green-500 ${settings.darkMode ? 'bg-gray-700 text-white' : 'bg-white text-gray-900'}`}>
+            <p className={`text-xs ${settings.darkMode ? 'text-gray-400' : 'text-gray-500'}`}>Replied with</p>
+            <p className="text-sm font-medium">{reply?.title || message.button?.text}</p>
+            {message.interactive?.list_reply?.description && (
+              <p className={`text-xs ${settings.darkMode ? 'text-gray-400' : 'text-gray-500'}`}>{message.interactive.list_reply.description}</p>
+            )}
+          </div>
+        );
+      }
+      case 'template':
         return (
-          <div className={`max-w-xs lg:max-w-md px-4 py-2 rounded-lg shadow-sm ${message.from === 'me'
+          <div className={`max-w-xs lg:max-w-md rounded-lg shadow-sm overflow-hidden ${isOwnMessage(message)
             ? 'bg-green-500 text-white'
             : settings.darkMode
               ? 'bg-gray-700 text-white'
               : 'bg-white text-gray-900'
             }`}>
-            {message.text?.body}
+            <div className="px-4 py-2">
+              {message.template?.rendered.header && (
+                <p className="font-semibold mb-1">{message.template.rendered.header}</p>
+              )}
+              <p className="whitespace-pre-wrap">{message.template?.rendered.body}</p>
+              {message.template?.rendered.footer && (
+                <p className="text-xs opacity-75 mt-1">{message.template.rendered.footer}</p>
+              )}
+            </div>
+            {message.template?.rendered.buttons.map(button => (
+              <div key={button} className="text-center text-sm py-2 border-t border-white border-opacity-30">
+                {button}
+              </div>
+            ))}
+          </div>
+        );
+      default:
+        return (
+          <div className={`flex items-center space-x-2 px-4 py-2 rounded-lg italic ${settings.darkMode ? 'bg-gray-700 text-gray-300' : 'bg-white text-gray-500'}`}>
+            <AlertCircle className="w-4 h-4" />
+            <span className="text-sm">This message type isn't supported yet</span>
           </div>
         );
     }
   };
 
+  const renderReactions = (message: Message) => {
+    if (!message.reactions?.length) return null;
+
+    return (
+      <div className={`inline-flex items-center -mt-2 ml-2 px-1.5 py-0.5 rounded-full text-sm shadow ${settings.darkMode ? 'bg-gray-700' : 'bg-white'}`}>
+        {[...new Set(message.reactions.map(reaction => reaction.emoji))].join('')}
+        {message.reactions.length > 1 && (
+          <span className={`ml-1 text-xs ${settings.darkMode ? 'text-gray-400' : 'text-gray-500'}`}>{message.reactions.length}</span>
+        )}
+      </div>
+    );
+  };
+
+  // One-line summary used for the sidebar preview
+  const getMessagePreview = (message?: Message) => {
+    if (!message) return 'No messages yet';
+
+    switch (message.type) {
+      case 'text':
+        return message.text?.body;
+      case 'image':
+        return `📷 ${message.image?.caption || 'Photo'}`;
+      case 'video':
+        return `🎥 ${message.video?.caption || 'Video'}`;
+      case 'document':
+        return `📄 ${message.document?.filename || 'Document'}`;
+      case 'audio':
+        return '🎤 Voice message';
+      case 'sticker':
+        return 'Sticker';
+      case 'location':
+        return `📍 ${message.location?.name || 'Location'}`;
+      case 'contacts':
+        return `👤 ${message.contacts?.[0]?.name.formatted_name || 'Contact'}`;
+      case 'interactive':
+        return message.interactive?.button_reply?.title || message.interactive?.list_reply?.title;
+      case 'button':
+        return message.button?.text;
+      case 'template':
+        return `📋 ${message.template?.rendered.body || message.template?.name}`;
+      case 'reaction':
+        return message.reaction?.emoji ? `Reacted ${message.reaction.emoji} to a message` : 'Removed a reaction';
+      default:
+        return 'Unsupported message';
+    }
+  };
+
   const filteredContacts = contacts.filter(contact =>
     contact.profile_name.toLowerCase().includes(searchQuery.toLowerCase()) ||
     contact.wa_id.includes(searchQuery)
   );
 
-  const filteredMessages = searchMode && searchQuery
-    ? messages.filter(message =>
-      message.text?.body?.toLowerCase().includes(searchQuery.toLowerCase()) ||
-      message.image?.caption?.toLowerCase().includes(searchQuery.toLowerCase()) ||
-      message.video?.caption?.toLowerCase().includes(searchQuery.toLowerCase()) ||
-      message.document?.filename?.toLowerCase().includes(searchQuery.toLowerCase())
-    )
-    : messages;
+  // Looked up on every render so the info panel follows live status updates
+  const messageInfo = messages.find(message => message._id === messageInfoId);
+
+  const visibleMessages = messages.filter(message => message.type !== 'reaction');
+
+  const renderSnippet = ({ text, highlights }: SearchResult['snippet']) => {
+    const parts: React.ReactNode[] = [];
+    let position = 0;
+    highlights.forEach(([start, end]) => {
+      parts.push(text.slice(position, start));
+      parts.push(<mark key={start} className="bg-yellow-200 text-gray-900 rounded-sm">{text.slice(start, end)}</mark>);
+      position = end;
+    });
+    parts.push(text.slice(position));
+    return parts;
+  };
 
   return (
     <div className={`flex h-screen ${settings.darkMode ? 'bg-gray-900' : 'bg-gray-100'}`}>
@@ -763,12 +2252,15 @@ function App() {
         {/* Header */}
         <div className={`flex items-center justify-between p-4 ${settings.darkMode ? 'bg-gray-800 border-gray-600' : 'bg-gray-50 border-gray-200'} border-b`}>
           <div className="flex items-center space-x-3">
-            <div className="w-10 h-10 bg-gradient-to-br from-green-400 to-green-600 rounded-full flex items-center justify-center text-white font-semibold">
-              W
+            <div
+              title={`Signed in as ${session.agent.name}`}
+              className="w-10 h-10 bg-gradient-to-br from-green-400 to-green-600 rounded-full flex items-center justify-center text-white font-semibold"
+            >
+              {session.agent.name.charAt(0).toUpperCase()}
             </div>
             <div className="flex items-center space-x-2">
               <span className={`text-sm font-medium ${settings.darkMode ? 'text-white' : 'text-gray-900'}`}>WhatsApp Web</span>
-              <div className={`w-2 h-2 rounded-full ${isConnected ? 'bg-green-500' : 'bg-red-500'}`} />
+              <div className={`w-2 h-2 rounded-full ${connectionState === 'connected' ? 'bg-green-500' : 'bg-red-500'}`} />
             </div>
           </div>
           <div className="relative">
@@ -811,11 +2303,47 @@ function App() {
                 >
                   Settings
                 </button>
+                <button
+                  onClick={onLogout}
+                  className={`w-full text-left px-3 py-2 text-sm rounded-md transition-colors ${settings.darkMode ? 'hover:bg-gray-700 text-white' : 'hover:bg-gray-100 text-gray-900'}`}
+                >
+                  Log out
+                </button>
               </div>
             )}
           </div>
         </div>
 
+        {/* Connection banner */}
+        {(connectionState === 'reconnecting' || connectionState === 'syncing') && (
+          <div className={`flex items-center px-4 py-2 text-sm ${connectionState === 'reconnecting'
+            ? (settings.darkMode ? 'bg-yellow-900 text-yellow-100' : 'bg-yellow-100 text-yellow-900')
+            : (settings.darkMode ? 'bg-blue-900 text-blue-100' : 'bg-blue-100 text-blue-900')}`}
+          >
+            <div className="w-3 h-3 mr-2 border-2 border-current border-t-transparent rounded-full animate-spin" />
+            {connectionState === 'reconnecting'
+              ? 'Connection lost. Reconnecting…'
+              : 'Reconnected. Syncing missed messages…'}
+          </div>
+        )}
+
+        {/* Business number switcher */}
+        {accounts.length > 1 && (
+          <div className={`px-2 sm:px-3 pt-2 sm:pt-3 ${settings.darkMode ? 'bg-gray-800' : 'bg-white'}`}>
+            <select
+              value={accountId ?? accounts[0].id}
+              onChange={(e) => handleAccountChange(e.target.value)}
+              className={`w-full rounded-lg px-2 py-2 text-sm focus:outline-none focus:ring-2 focus:ring-green-500 ${settings.darkMode ? 'bg-gray-700 text-white' : 'bg-gray-100 text-gray-900'}`}
+            >
+              {accounts.map(account => (
+                <option key={account.id} value={account.id}>
+                  {account.display_phone_number ? `${account.name} (${account.display_phone_number})` : account.name}
+                </option>
+              ))}
+            </select>
+          </div>
+        )}
+
         {/* Search */}
         <div className={`p-2 sm:p-3 border-b ${settings.darkMode ? 'border-gray-600' : 'border-gray-200'}`}>
           <div className="relative">
@@ -839,10 +2367,56 @@ function App() {
               </button>
             )}
           </div>
+          {searchQuery.trim().length >= 2 && (
+            <div className="flex gap-1 mt-2 text-xs">
+              <select
+                value={searchFilters.type}
+                onChange={(e) => setSearchFilters(prev => ({ ...prev, type: e.target.value }))}
+                className={`flex-1 min-w-0 rounded px-1 py-1 ${settings.darkMode ? 'bg-gray-700 text-white' : 'bg-gray-100 text-gray-700'}`}
+              >
+                <option value="">All types</option>
+                <option value="text">Text</option>
+                <option value="image">Photos</option>
+                <option value="video">Videos</option>
+                <option value="document">Documents</option>
+                <option value="template">Templates</option>
+              </select>
+              <input
+                type="date"
+                title="From"
+                value={searchFilters.since}
+                onChange={(e) => setSearchFilters(prev => ({ ...prev, since: e.target.value }))}
+                className={`flex-1 min-w-0 rounded px-1 py-1 ${settings.darkMode ? 'bg-gray-700 text-white' : 'bg-gray-100 text-gray-700'}`}
+              />
+              <input
+                type="date"
+                title="To"
+                value={searchFilters.until}
+                onChange={(e) => setSearchFilters(prev => ({ ...prev, until: e.target.value }))}
+                className={`flex-1 min-w-0 rounded px-1 py-1 ${settings.darkMode ? 'bg-gray-700 text-white' : 'bg-gray-100 text-gray-700'}`}
+              />
+            </div>
+          )}
+        </div>
+
+        {/* Inbox views */}
+        <div className={`flex border-b text-xs sm:text-sm ${settings.darkMode ? 'border-gray-600' : 'border-gray-200'}`}>
+          {INBOX_VIEWS.map(({ view, label }) => (
+            <button
+              key={view}
+              onClick={() => setInboxView(view)}
+              className={`flex-1 py-2 font-medium border-b-2 transition-colors ${inboxView === view
+                ? 'border-green-500 text-green-600'
+                : `border-transparent ${settings.darkMode ? 'text-gray-400 hover:text-gray-200' : 'text-gray-500 hover:text-gray-700'}`
+                }`}
+            >
+              {label}
+            </button>
+          ))}
         </div>
 
         {/* Contacts List */}
-        <div className={`flex-1 overflow-y-auto ${settings.darkMode ? 'bg-gray-800' : 'bg-white'}`}>
+        <div onScroll={handleContactsScroll} className={`flex-1 overflow-y-auto ${settings.darkMode ? 'bg-gray-800' : 'bg-white'}`}>
           {filteredContacts.map((contact) => (
             <div
               key={contact.wa_id}
@@ -852,11 +2426,11 @@ function App() {
                 : `hover:bg-gray-50 border-gray-100 ${selectedContact?.wa_id === contact.wa_id ? 'bg-green-50 border-l-4 border-l-green-500' : ''}`
                 }`}
             >
-              <div className={`w-10 h-10 sm:w-12 sm:h-12 rounded-full flex items-center justify-center text-white font-semibold mr-2 sm:mr-3 text-sm sm:text-base ${contact.wa_id.startsWith('group_')
+              <div className={`w-10 h-10 sm:w-12 sm:h-12 rounded-full flex items-center justify-center text-white font-semibold mr-2 sm:mr-3 text-sm sm:text-base ${isGroupId(contact.wa_id)
                 ? 'bg-gradient-to-br from-green-400 to-green-600'
                 : 'bg-gradient-to-br from-blue-400 to-purple-500'
                 }`}>
-                {contact.wa_id.startsWith('group_') ? (
+                {isGroupId(contact.wa_id) ? (
                   <svg className="w-5 h-5 sm:w-6 sm:h-6" fill="currentColor" viewBox="0 0 24 24">
                     <path d="M12 2C13.1 2 14 2.9 14 4C14 5.1 13.1 6 12 6C10.9 6 10 5.1 10 4C10 2.9 10.9 2 12 2ZM21 9V7L15 1H5C3.89 1 3 1.89 3 3V21C3 22.11 3.89 23 5 23H19C20.11 23 21 22.11 21 21V9M19 9H14V4H5V21H19V9Z" />
                   </svg>
@@ -875,12 +2449,12 @@ function App() {
                 </div>
                 <div className="flex items-center justify-between">
                   <p className={`text-xs sm:text-sm truncate ${settings.darkMode ? 'text-gray-300' : 'text-gray-600'}`}>
-                    {contact.lastMessage?.from === 'me' && (
+                    {isOwnMessage(contact.lastMessage) && contact.lastMessage && (
                       <span className="inline-flex mr-1">
-                        {getStatusIcon(contact.lastMessage.status)}
+                        {getStatusIcon(contact.lastMessage.status, getFailureReason(contact.lastMessage))}
                       </span>
                     )}
-                    {contact.lastMessage?.text?.body || 'No messages yet'}
+                    {getMessagePreview(contact.lastMessage)}
                   </p>
                   {contact.unreadCount > 0 && (
                     <span className="bg-green-500 text-white text-xs rounded-full px-1.5 sm:px-2 py-0.5 sm:py-1 min-w-[18px] sm:min-w-[20px] text-center ml-2">
@@ -888,9 +2462,37 @@ function App() {
                     </span>
                   )}
                 </div>
-              </div>
-            </div>
-          ))}
+              </div>
+            </div>
+          ))}
+          {searchResults.length > 0 && (
+            <>
+              <h4 className={`px-4 pt-4 pb-2 text-xs font-semibold uppercase ${settings.darkMode ? 'text-green-400' : 'text-green-600'}`}>Messages</h4>
+              {searchResults.map((result) => (
+                <div
+                  key={result.message._id}
+                  onClick={() => jumpToMessage(result)}
+                  className={`px-4 py-3 cursor-pointer border-b transition-colors duration-200 ${settings.darkMode ? 'hover:bg-gray-700 border-gray-600' : 'hover:bg-gray-50 border-gray-100'}`}
+                >
+                  <div className="flex items-center justify-between">
+                    <h3 className={`text-sm font-semibold truncate ${settings.darkMode ? 'text-white' : 'text-gray-900'}`}>
+                      {contacts.find(c => c.wa_id === result.message.wa_id)?.profile_name || result.message.profile_name || result.message.wa_id}
+                    </h3>
+                    <span className={`text-xs ml-2 ${settings.darkMode ? 'text-gray-400' : 'text-gray-500'}`}>
+                      {formatMessageTime(result.message.timestamp)}
+                    </span>
+                  </div>
+                  <p className={`text-xs sm:text-sm truncate ${settings.darkMode ? 'text-gray-300' : 'text-gray-600'}`}>
+                    {isOwnMessage(result.message) && 'You: '}
+                    {renderSnippet(result.snippet)}
+                  </p>
+                </div>
+              ))}
+            </>
+          )}
+          {loadingConversations && (
+            <p className={`text-center text-xs py-3 ${settings.darkMode ? 'text-gray-400' : 'text-gray-500'}`}>Loading more chats…</p>
+          )}
         </div>
       </div>
 
@@ -910,11 +2512,11 @@ function App() {
                 </svg>
               </button>
 
-              <div className={`w-10 h-10 rounded-full flex items-center justify-center text-white font-semibold mr-3 ${selectedContact.wa_id.startsWith('group_')
+              <div className={`w-10 h-10 rounded-full flex items-center justify-center text-white font-semibold mr-3 ${isGroupId(selectedContact.wa_id)
                 ? 'bg-gradient-to-br from-green-400 to-green-600'
                 : 'bg-gradient-to-br from-blue-400 to-purple-500'
                 }`}>
-                {selectedContact.wa_id.startsWith('group_') ? (
+                {isGroupId(selectedContact.wa_id) ? (
                   <svg className="w-5 h-5" fill="currentColor" viewBox="0 0 24 24">
                     <path d="M12 2C13.1 2 14 2.9 14 4C14 5.1 13.1 6 12 6C10.9 6 10 5.1 10 4C10 2.9 10.9 2 12 2ZM21 9V7L15 1H5C3.89 1 3 1.89 3 3V21C3 22.11 3.89 23 5 23H19C20.11 23 21 22.11 21 21V9M19 9H14V4H5V21H19V9Z" />
                   </svg>
@@ -926,11 +2528,43 @@ function App() {
                 <h2 className={`text-lg font-semibold ${settings.darkMode ? 'text-white' : 'text-gray-900'}`}>
                   {searchMode ? `Search in ${selectedContact.profile_name}` : selectedContact.profile_name}
                 </h2>
-                <p className={`text-sm ${settings.darkMode ? 'text-gray-400' : 'text-gray-500'}`}>
-                  {searchMode ? `${filteredMessages.length} results` : `+${selectedContact.wa_id}`}
-                </p>
+                {!searchMode && typingAgents.length > 0 ? (
+                  <p className="text-sm text-green-500">
+                    {typingAgents.map(agent => agent.name).join(', ')} {typingAgents.length === 1 ? 'is' : 'are'} typing…
+                  </p>
+                ) : (
+                  <p className={`text-sm ${settings.darkMode ? 'text-gray-400' : 'text-gray-500'}`}>
+                    {searchMode
+                      ? `${searchResults.length} results`
+                      : `${isGroupId(selectedContact.wa_id) ? selectedGroup?.members.map(member => member.profile_name).join(', ') || 'Group' : `+${selectedContact.wa_id}`} · ${selectedContact.assignee ? `Assigned to ${selectedContact.assignee.id === session.agent.id ? 'you' : selectedContact.assignee.name}` : 'Unassigned'}`}
+                    {!searchMode && viewers.length > 0 && (
+                      <span title="Also viewing this chat">
+                        {' · '}
+                        <span className="inline-block w-2 h-2 rounded-full bg-green-500 align-middle mr-1" />
+                        {viewers.map(agent => agent.name).join(', ')}
+                      </span>
+                    )}
+                  </p>
+                )}
               </div>
               <div className="flex items-center space-x-2">
+                {selectedContact.state === 'pending' && (
+                  <span className="px-2 py-0.5 text-xs rounded-full bg-yellow-100 text-yellow-800">Pending</span>
+                )}
+                {!selectedContact.assignee && (
+                  <button
+                    onClick={handleClaimConversation}
+                    className="px-3 py-1 text-xs sm:text-sm rounded-full bg-green-500 text-white hover:bg-green-600"
+                  >
+                    Claim
+                  </button>
+                )}
+                <button
+                  onClick={() => handleConversationState(selectedContact.state === 'resolved' ? 'open' : 'resolved')}
+                  className={`px-3 py-1 text-xs sm:text-sm rounded-full border ${settings.darkMode ? 'border-gray-500 text-gray-200 hover:bg-gray-700' : 'border-gray-300 text-gray-700 hover:bg-gray-100'}`}
+                >
+                  {selectedContact.state === 'resolved' ? 'Reopen' : 'Resolve'}
+                </button>
                 <Search
                   className="w-5 h-5 text-gray-500 cursor-pointer hover:text-gray-700"
                   onClick={handleSearchClick}
@@ -945,6 +2579,35 @@ function App() {
                       ref={chatMenuRef}
                       className={`absolute right-0 top-8 rounded-lg shadow-lg border p-2 z-10 min-w-[180px] ${settings.darkMode ? 'bg-gray-800 border-gray-600' : 'bg-white border-gray-200'}`}
                     >
+                      {selectedGroup && (
+                        <button
+                          onClick={handleGroupInfo}
+                          className={`w-full text-left px-3 py-2 text-sm rounded-md transition-colors ${settings.darkMode ? 'hover:bg-gray-700 text-white' : 'hover:bg-gray-100 text-gray-900'}`}
+                        >
+                          Group info
+                        </button>
+                      )}
+                      {selectedContact.state !== 'pending' && (
+                        <button
+                          onClick={() => handleConversationState('pending')}
+                          className={`w-full text-left px-3 py-2 text-sm rounded-md transition-colors ${settings.darkMode ? 'hover:bg-gray-700 text-white' : 'hover:bg-gray-100 text-gray-900'}`}
+                        >
+                          Mark as pending
+                        </button>
+                      )}
+                      <label className={`block px-3 py-2 text-sm ${settings.darkMode ? 'text-white' : 'text-gray-900'}`}>
+                        Transfer to
+                        <select
+                          value={selectedContact.assignee?.id || ''}
+                          onChange={(e) => handleTransferConversation(e.target.value)}
+                          className={`mt-1 w-full rounded px-2 py-1 ${settings.darkMode ? 'bg-gray-700 text-white' : 'bg-gray-100 text-gray-900'}`}
+                        >
+                          <option value="">Unassigned</option>
+                          {agents.map(agent => (
+                            <option key={agent.id} value={agent.id}>{agent.id === session.agent.id ? `${agent.name} (you)` : agent.name}</option>
+                          ))}
+                        </select>
+                      </label>
                       <button
                         onClick={handleClearChat}
                         className={`w-full text-left px-3 py-2 text-sm rounded-md transition-colors ${settings.darkMode ? 'hover:bg-gray-700 text-white' : 'hover:bg-gray-100 text-gray-900'}`}
@@ -961,7 +2624,7 @@ function App() {
                         onClick={handleBlockContact}
                         className={`w-full text-left px-3 py-2 text-sm rounded-md transition-colors ${settings.darkMode ? 'hover:bg-gray-700 text-white' : 'hover:bg-gray-100 text-gray-900'}`}
                       >
-                        Block {selectedContact?.profile_name}
+                        {isBlocked(selectedContact?.wa_id) ? 'Unblock' : 'Block'} {selectedContact?.profile_name}
                       </button>
                       <button
                         onClick={handleReportContact}
@@ -976,27 +2639,77 @@ function App() {
             </div>
 
             {/* Messages */}
-            <div className={`flex-1 overflow-y-auto p-2 sm:p-4 ${settings.darkMode ? 'bg-gray-900' : 'bg-gray-50'}`} style={{
+            <div ref={messagesContainerRef} onScroll={handleMessagesScroll} className={`flex-1 overflow-y-auto p-2 sm:p-4 ${settings.darkMode ? 'bg-gray-900' : 'bg-gray-50'}`} style={{
               backgroundImage: 'url("data:image/svg+xml,%3Csvg width="100" height="100" xmlns="http://www.w3.org/2000/svg"%3E%3Cdefs%3E%3Cpattern id="chat-bg" x="0" y="0" width="100" height="100" patternUnits="userSpaceOnUse"%3E%3Cpath d="M0 100V.5h100" fill="none" stroke="%23f3f4f6" stroke-width=".5"/%3E%3C/pattern%3E%3C/defs%3E%3Crect width="100" height="100" fill="url(%23chat-bg)"/%3E%3C/svg%3E")'
             }}>
               <div className="space-y-3 sm:space-y-4 max-w-4xl mx-auto">
-                {filteredMessages.map((message) => (
+                {loadingOlder && (
+                  <p className={`text-center text-xs ${settings.darkMode ? 'text-gray-400' : 'text-gray-500'}`}>Loading older messages…</p>
+                )}
+                {visibleMessages.map((message) => (
                   <div
                     key={message._id}
-                    className={`flex ${message.from === 'me' ? 'justify-end' : 'justify-start'}`}
+                    id={`message-${message._id}`}
+                    className={`flex ${isOwnMessage(message) ? 'justify-end' : 'justify-start'} ${highlightedMessageId === message._id ? 'rounded-lg ring-2 ring-yellow-400 ring-offset-2' : ''}`}
                   >
-                    <div className="relative max-w-[85%] sm:max-w-[70%] lg:max-w-[60%]">
+                    <div
+                      className="relative max-w-[85%] sm:max-w-[70%] lg:max-w-[60%]"
+                      onContextMenu={(e) => {
+                        // Messages still in the outbox aren't stored yet
+                        if (message.client_id && message._id === message.client_id) return;
+                        e.preventDefault();
+                        setMessageMenuId(message._id);
+                      }}
+                    >
+                      {messageMenuId === message._id && (
+                        <div className={`message-menu absolute top-0 ${isOwnMessage(message) ? 'right-full mr-2' : 'left-full ml-2'} rounded-lg shadow-xl border py-1 z-10 w-32 ${settings.darkMode ? 'bg-gray-800 border-gray-600' : 'bg-white border-gray-200'}`}>
+                          <button
+                            type="button"
+                            onClick={() => handleToggleStar(message)}
+                            className={`w-full text-left px-3 py-2 text-sm transition-colors ${settings.darkMode ? 'hover:bg-gray-700 text-white' : 'hover:bg-gray-100 text-gray-900'}`}
+                          >
+                            {message.starred ? 'Unstar' : 'Star'}
+                          </button>
+                        </div>
+                      )}
+                      {(message.sender || message.group || message.campaign) && (
+                        <p className={`text-xs mb-1 ${isOwnMessage(message) ? 'text-right' : ''} ${settings.darkMode ? 'text-gray-400' : 'text-gray-500'}`}>
+                          {message.sender
+                            ? message.sender.name
+                            : message.group ? `Sent to group ${message.group.name}` : `Campaign: ${message.campaign?.name}`}
+                        </p>
+                      )}
                       {renderMessageContent(message)}
-                      <div className={`flex items-center justify-end space-x-1 mt-1 ${message.from === 'me'
+                      {renderReactions(message)}
+                      <div className={`flex items-center justify-end space-x-1 mt-1 ${isOwnMessage(message)
                         ? 'text-green-100'
                         : settings.darkMode
                           ? 'text-gray-400'
                           : 'text-gray-500'
                         }`}>
+                        {message.starred && <Star className="w-3 h-3 fill-current" />}
                         <span className="text-xs">
                           {formatMessageTime(message.timestamp)}
                         </span>
-                        {message.from === 'me' && getStatusIcon(message.status)}
+                        {isOwnMessage(message) && (
+                          <button
+                            type="button"
+                            onClick={() => setMessageInfoId(message._id)}
+                            className="inline-flex"
+                            title="Message info"
+                          >
+                            {getStatusIcon(message.status, getFailureReason(message))}
+                          </button>
+                        )}
+                        {isOwnMessage(message) && message.status === 'failed' && (
+                          <button
+                            type="button"
+                            onClick={() => handleRetryMessage(message)}
+                            className="text-xs text-red-500 hover:underline"
+                          >
+                            Retry
+                          </button>
+                        )}
                       </div>
                     </div>
                   </div>
@@ -1006,130 +2719,220 @@ function App() {
 
             {/* Message Input */}
             <div className={`p-2 sm:p-4 border-t ${settings.darkMode ? 'bg-gray-800 border-gray-600' : 'bg-gray-50 border-gray-200'}`}>
-              <form onSubmit={handleSendMessage} className="flex items-center space-x-1 sm:space-x-2">
-                {/* Attachment Menu */}
-                <div className="relative">
-                  <Paperclip
-                    className="w-6 h-6 text-gray-500 cursor-pointer hover:text-gray-700"
-                    onClick={() => setShowAttachmentMenu(!showAttachmentMenu)}
-                  />
-                  {showAttachmentMenu && (
-                    <div className={`attachment-menu absolute bottom-12 left-0 rounded-xl shadow-xl border p-2 sm:p-3 z-10 min-w-[180px] sm:min-w-[200px] ${settings.darkMode ? 'bg-gray-800 border-gray-600' : 'bg-white border-gray-200'}`}>
-                      {/* Arrow indicator */}
-                      <div className={`absolute -bottom-2 left-4 w-4 h-4 border-b border-r transform rotate-45 ${settings.darkMode ? 'bg-gray-800 border-gray-600' : 'bg-white border-gray-200'}`}></div>
-                      <div className="space-y-1 sm:space-y-2">
-                        {/* Photo Option */}
-                        <button
-                          type="button"
-                          onClick={() => fileInputRef.current?.click()}
-                          className={`w-full flex items-center space-x-2 sm:space-x-3 p-2 sm:p-3 rounded-lg transition-colors duration-200 ${settings.darkMode ? 'hover:bg-gray-700' : 'hover:bg-gray-50'}`}
-                        >
-                          <div className="w-8 h-8 sm:w-10 sm:h-10 bg-blue-100 rounded-lg flex items-center justify-center">
-                            <Image className="w-4 h-4 sm:w-5 sm:h-5 text-blue-600" />
-                          </div>
-                          <div className="text-left">
-                            <div className={`text-sm font-medium ${settings.darkMode ? 'text-white' : 'text-gray-900'}`}>Photo</div>
-                            <div className={`text-xs ${settings.darkMode ? 'text-gray-400' : 'text-gray-500'}`}>Share images</div>
-                          </div>
-                        </button>
-
-                        {/* Video Option */}
-                        <button
-                          type="button"
-                          onClick={() => fileInputRef.current?.click()}
-                          className={`w-full flex items-center space-x-2 sm:space-x-3 p-2 sm:p-3 rounded-lg transition-colors duration-200 ${settings.darkMode ? 'hover:bg-gray-700' : 'hover:bg-gray-50'}`}
-                        >
-                          <div className="w-8 h-8 sm:w-10 sm:h-10 bg-purple-100 rounded-lg flex items-center justify-center">
-                            <Video className="w-4 h-4 sm:w-5 sm:h-5 text-purple-600" />
-                          </div>
-                          <div className="text-left">
-                            <div className={`text-sm font-medium ${settings.darkMode ? 'text-white' : 'text-gray-900'}`}>Video</div>
-                            <div className={`text-xs ${settings.darkMode ? 'text-gray-400' : 'text-gray-500'}`}>Share videos</div>
-                          </div>
-                        </button>
-
-                        {/* Document Option */}
-                        <button
-                          type="button"
-                          onClick={() => fileInputRef.current?.click()}
-                          className={`w-full flex items-center space-x-2 sm:space-x-3 p-2 sm:p-3 rounded-lg transition-colors duration-200 ${settings.darkMode ? 'hover:bg-gray-700' : 'hover:bg-gray-50'}`}
-                        >
-                          <div className="w-8 h-8 sm:w-10 sm:h-10 bg-green-100 rounded-lg flex items-center justify-center">
-                            <FileText className="w-4 h-4 sm:w-5 sm:h-5 text-green-600" />
+              {isBlocked(selectedContact.wa_id) ? (
+                <p className={`text-center text-sm py-2 ${settings.darkMode ? 'text-gray-400' : 'text-gray-500'}`}>
+                  You blocked this contact.{' '}
+                  <button
+                    type="button"
+                    onClick={() => handleUnblockContact(selectedContact.wa_id)}
+                    className="text-green-600 hover:underline"
+                  >
+                    Unblock
+                  </button>
+                </p>
+              ) : (
+                <form onSubmit={handleSendMessage} className="flex items-center space-x-1 sm:space-x-2">
+                  {/* Template Picker */}
+                  <div className="relative template-picker">
+                    <LayoutTemplate
+                      className="w-6 h-6 text-gray-500 cursor-pointer hover:text-gray-700"
+                      onClick={handleTemplatePickerClick}
+                    />
+                    {showTemplatePicker && (
+                      <div className={`absolute bottom-12 left-0 rounded-xl shadow-xl border p-3 z-10 w-72 sm:w-80 max-h-96 overflow-y-auto ${settings.darkMode ? 'bg-gray-800 border-gray-600' : 'bg-white border-gray-200'}`}>
+                        {selectedTemplate ? (
+                          <div className="space-y-3">
+                            <div className="flex items-center space-x-2">
+                              <button
+                                type="button"
+                                onClick={() => handleSelectTemplate(null)}
+                                className="text-gray-500 hover:text-gray-700"
+                              >
+                                ←
+                              </button>
+                              <span className={`text-sm font-medium ${settings.darkMode ? 'text-white' : 'text-gray-900'}`}>{selectedTemplate.name}</span>
+                            </div>
+                            {selectedTemplate.variables.map(variable => (
+                              <input
+                                key={`${variable.component}-${variable.index}`}
+                                type="text"
+                                value={templateParams[variable.component]?.[variable.index - 1] || ''}
+                                onChange={(e) => handleTemplateParamChange(variable.component, variable.index, e.target.value)}
+                                placeholder={variable.example ? `${variable.label} (e.g. ${variable.example})` : variable.label}
+                                className={`w-full px-3 py-2 text-sm border rounded-lg focus:outline-none focus:ring-2 focus:ring-green-500 ${settings.darkMode ? 'bg-gray-700 border-gray-600 text-white placeholder-gray-400' : 'bg-white border-gray-300 text-gray-900 placeholder-gray-500'}`}
+                              />
+                            ))}
+                            <div className={`p-3 rounded-lg text-sm ${settings.darkMode ? 'bg-gray-700 text-white' : 'bg-green-50 text-gray-900'}`}>
+                              {selectedTemplate.components.map(component => {
+                                if (component.type === 'HEADER') {
+                                  return <p key="header" className="font-semibold mb-1">{renderTemplateText(component.text, templateParams.HEADER)}</p>;
+                                }
+                                if (component.type === 'BODY') {
+                                  return <p key="body" className="whitespace-pre-wrap">{renderTemplateText(component.text, templateParams.BODY)}</p>;
+                                }
+                                if (component.type === 'FOOTER') {
+                                  return <p key="footer" className="text-xs text-gray-500 mt-1">{component.text}</p>;
+                                }
+                                return component.buttons?.map(button => (
+                                  <p key={button.text} className="text-center text-green-600 border-t mt-2 pt-1">{button.text}</p>
+                                ));
+                              })}
+                            </div>
+                            <button
+                              type="button"
+                              onClick={handleSendTemplate}
+                              className="w-full bg-green-500 text-white py-2 px-4 rounded-lg hover:bg-green-600 transition-colors text-sm"
+                            >
+                              Send template
+                            </button>
                           </div>
-                          <div className="text-left">
-                            <div className={`text-sm font-medium ${settings.darkMode ? 'text-white' : 'text-gray-900'}`}>Document</div>
-                            <div className={`text-xs ${settings.darkMode ? 'text-gray-400' : 'text-gray-500'}`}>Share files</div>
+                        ) : (
+                          <div className="space-y-1">
+                            {templates.length === 0 && (
+                              <p className={`text-sm p-2 ${settings.darkMode ? 'text-gray-400' : 'text-gray-500'}`}>No templates yet</p>
+                            )}
+                            {templates.map(template => (
+                              <button
+                                key={template._id}
+                                type="button"
+                                onClick={() => handleSelectTemplate(template)}
+                                className={`w-full text-left p-2 rounded-lg transition-colors ${settings.darkMode ? 'hover:bg-gray-700' : 'hover:bg-gray-50'}`}
+                              >
+                                <div className={`text-sm font-medium ${settings.darkMode ? 'text-white' : 'text-gray-900'}`}>{template.name}</div>
+                                <div className={`text-xs ${settings.darkMode ? 'text-gray-400' : 'text-gray-500'}`}>{template.language} · {template.category.toLowerCase()}</div>
+                              </button>
+                            ))}
                           </div>
-                        </button>
+                        )}
+                      </div>
+                    )}
+                  </div>
 
-                        {/* Voice Message Option */}
-                        <button
-                          type="button"
-                          onClick={handleVoiceMessage}
-                          className={`w-full flex items-center space-x-2 sm:space-x-3 p-2 sm:p-3 rounded-lg transition-colors duration-200 ${isRecording ? (settings.darkMode ? 'bg-red-900' : 'bg-red-50') : ''} ${settings.darkMode ? 'hover:bg-gray-700' : 'hover:bg-gray-50'}`}
-                        >
-                          <div className={`w-8 h-8 sm:w-10 sm:h-10 rounded-lg flex items-center justify-center ${isRecording ? 'bg-red-100' : 'bg-gray-100'}`}>
-                            <Mic className={`w-4 h-4 sm:w-5 sm:h-5 ${isRecording ? 'text-red-600' : 'text-gray-600'}`} />
-                          </div>
-                          <div className="text-left">
-                            <div className={`text-sm font-medium ${settings.darkMode ? 'text-white' : 'text-gray-900'}`}>
-                              {isRecording ? 'Recording...' : 'Voice Message'}
+                  {/* Attachment Menu */}
+                  <div className="relative">
+                    <Paperclip
+                      className="w-6 h-6 text-gray-500 cursor-pointer hover:text-gray-700"
+                      onClick={() => setShowAttachmentMenu(!showAttachmentMenu)}
+                    />
+                    {showAttachmentMenu && (
+                      <div className={`attachment-menu absolute bottom-12 left-0 rounded-xl shadow-xl border p-2 sm:p-3 z-10 min-w-[180px] sm:min-w-[200px] ${settings.darkMode ? 'bg-gray-800 border-gray-600' : 'bg-white border-gray-200'}`}>
+                        {/* Arrow indicator */}
+                        <div className={`absolute -bottom-2 left-4 w-4 h-4 border-b border-r transform rotate-45 ${settings.darkMode ? 'bg-gray-800 border-gray-600' : 'bg-white border-gray-200'}`}></div>
+                        <div className="space-y-1 sm:space-y-2">
+                          {/* Photo Option */}
+                          <button
+                            type="button"
+                            onClick={() => fileInputRef.current?.click()}
+                            className={`w-full flex items-center space-x-2 sm:space-x-3 p-2 sm:p-3 rounded-lg transition-colors duration-200 ${settings.darkMode ? 'hover:bg-gray-700' : 'hover:bg-gray-50'}`}
+                          >
+                            <div className="w-8 h-8 sm:w-10 sm:h-10 bg-blue-100 rounded-lg flex items-center justify-center">
+                              <Image className="w-4 h-4 sm:w-5 sm:h-5 text-blue-600" />
                             </div>
-                            <div className={`text-xs ${settings.darkMode ? 'text-gray-400' : 'text-gray-500'}`}>
-                              {isRecording ? 'Tap to stop' : 'Record audio'}
+                            <div className="text-left">
+                              <div className={`text-sm font-medium ${settings.darkMode ? 'text-white' : 'text-gray-900'}`}>Photo</div>
+                              <div className={`text-xs ${settings.darkMode ? 'text-gray-400' : 'text-gray-500'}`}>Share images</div>
                             </div>
-                          </div>
-                        </button>
+                          </button>
+
+                          {/* Video Option */}
+                          <button
+                            type="button"
+                            onClick={() => fileInputRef.current?.click()}
+                            className={`w-full flex items-center space-x-2 sm:space-x-3 p-2 sm:p-3 rounded-lg transition-colors duration-200 ${settings.darkMode ? 'hover:bg-gray-700' : 'hover:bg-gray-50'}`}
+                          >
+                            <div className="w-8 h-8 sm:w-10 sm:h-10 bg-purple-100 rounded-lg flex items-center justify-center">
+                              <Video className="w-4 h-4 sm:w-5 sm:h-5 text-purple-600" />
+                            </div>
+                            <div className="text-left">
+                              <div className={`text-sm font-medium ${settings.darkMode ? 'text-white' : 'text-gray-900'}`}>Video</div>
+                              <div className={`text-xs ${settings.darkMode ? 'text-gray-400' : 'text-gray-500'}`}>Share videos</div>
+                            </div>
+                          </button>
+
+                          {/* Document Option */}
+                          <button
+                            type="button"
+                            onClick={() => fileInputRef.current?.click()}
+                            className={`w-full flex items-center space-x-2 sm:space-x-3 p-2 sm:p-3 rounded-lg transition-colors duration-200 ${settings.darkMode ? 'hover:bg-gray-700' : 'hover:bg-gray-50'}`}
+                          >
+                            <div className="w-8 h-8 sm:w-10 sm:h-10 bg-green-100 rounded-lg flex items-center justify-center">
+                              <FileText className="w-4 h-4 sm:w-5 sm:h-5 text-green-600" />
+                            </div>
+                            <div className="text-left">
+                              <div className={`text-sm font-medium ${settings.darkMode ? 'text-white' : 'text-gray-900'}`}>Document</div>
+                              <div className={`text-xs ${settings.darkMode ? 'text-gray-400' : 'text-gray-500'}`}>Share files</div>
+                            </div>
+                          </button>
+
+                          {/* Voice Message Option */}
+                          <button
+                            type="button"
+                            onClick={handleVoiceMessage}
+                            className={`w-full flex items-center space-x-2 sm:space-x-3 p-2 sm:p-3 rounded-lg transition-colors duration-200 ${isRecording ? (settings.darkMode ? 'bg-red-900' : 'bg-red-50') : ''} ${settings.darkMode ? 'hover:bg-gray-700' : 'hover:bg-gray-50'}`}
+                          >
+                            <div className={`w-8 h-8 sm:w-10 sm:h-10 rounded-lg flex items-center justify-center ${isRecording ? 'bg-red-100' : 'bg-gray-100'}`}>
+                              <Mic className={`w-4 h-4 sm:w-5 sm:h-5 ${isRecording ? 'text-red-600' : 'text-gray-600'}`} />
+                            </div>
+                            <div className="text-left">
+                              <div className={`text-sm font-medium ${settings.darkMode ? 'text-white' : 'text-gray-900'}`}>
+                                {isRecording ? 'Recording...' : 'Voice Message'}
+                              </div>
+                              <div className={`text-xs ${settings.darkMode ? 'text-gray-400' : 'text-gray-500'}`}>
+                                {isRecording ? 'Tap to stop' : 'Record audio'}
+                              </div>
+                            </div>
+                          </button>
+                        </div>
                       </div>
-                    </div>
-                  )}
-                  <input
-                    ref={fileInputRef}
-                    type="file"
-                    accept="image/*,video/*,.pdf,.doc,.docx,.txt"
-                    onChange={handleFileUpload}
-                    className="hidden"
-                  />
-                </div>
-
-                <div className="flex-1 relative">
-                  <input
-                    type="text"
-                    value={newMessage}
-                    onChange={(e) => setNewMessage(e.target.value)}
-                    placeholder="Type a message"
-                    className={`w-full px-3 sm:px-4 py-2 sm:py-3 pr-10 sm:pr-12 rounded-full border focus:outline-none focus:ring-2 focus:ring-green-500 focus:border-transparent transition-all duration-200 text-sm sm:text-base ${settings.darkMode ? 'bg-gray-700 border-gray-600 text-white placeholder-gray-400' : 'bg-white border-gray-300 text-gray-900 placeholder-gray-500'}`}
-                  />
-                  <Smile
-                    className="absolute right-3 sm:right-4 top-1/2 transform -translate-y-1/2 w-5 h-5 sm:w-6 sm:h-6 text-gray-500 cursor-pointer hover:text-gray-700"
-                    onClick={() => setShowEmojiPicker(!showEmojiPicker)}
-                  />
+                    )}
+                    <input
+                      ref={fileInputRef}
+                      type="file"
+                      accept="image/*,video/*,.pdf,.doc,.docx,.txt"
+                      onChange={handleFileUpload}
+                      className="hidden"
+                    />
+                  </div>
 
-                  {/* Emoji Picker */}
-                  {showEmojiPicker && (
-                    <div
-                      ref={emojiPickerRef}
-                      className="absolute bottom-12 right-0 z-10"
-                    >
-                      <EmojiPicker
-                        onEmojiClick={handleEmojiClick}
-                        width={window.innerWidth < 640 ? 300 : 350}
-                        height={window.innerWidth < 640 ? 300 : 400}
-                        searchPlaceholder="Search emoji..."
-                      />
-                    </div>
-                  )}
-                </div>
+                  <div className="flex-1 relative">
+                    <input
+                      type="text"
+                      value={newMessage}
+                      onChange={(e) => handleComposerChange(e.target.value)}
+                      onBlur={stopTyping}
+                      placeholder="Type a message"
+                      className={`w-full px-3 sm:px-4 py-2 sm:py-3 pr-10 sm:pr-12 rounded-full border focus:outline-none focus:ring-2 focus:ring-green-500 focus:border-transparent transition-all duration-200 text-sm sm:text-base ${settings.darkMode ? 'bg-gray-700 border-gray-600 text-white placeholder-gray-400' : 'bg-white border-gray-300 text-gray-900 placeholder-gray-500'}`}
+                    />
+                    <Smile
+                      className="absolute right-3 sm:right-4 top-1/2 transform -translate-y-1/2 w-5 h-5 sm:w-6 sm:h-6 text-gray-500 cursor-pointer hover:text-gray-700"
+                      onClick={() => setShowEmojiPicker(!showEmojiPicker)}
+                    />
+
+                    {/* Emoji Picker */}
+                    {showEmojiPicker && (
+                      <div
+                        ref={emojiPickerRef}
+                        className="absolute bottom-12 right-0 z-10"
+                      >
+                        <EmojiPicker
+                          onEmojiClick={handleEmojiClick}
+                          width={window.innerWidth < 640 ? 300 : 350}
+                          height={window.innerWidth < 640 ? 300 : 400}
+                          searchPlaceholder="Search emoji..."
+                        />
+                      </div>
+                    )}
+                  </div>
 
-                <button
-                  type="submit"
-                  disabled={!newMessage.trim()}
-                  className="w-10 h-10 sm:w-12 sm:h-12 bg-green-500 text-white rounded-full flex items-center justify-center hover:bg-green-600 disabled:opacity-50 disabled:cursor-not-allowed transition-all duration-200"
-                >
-                  <Send className="w-4 h-4 sm:w-5 sm:h-5" />
-                </button>
-              </form>
+                  <button
+                    type="submit"
+                    disabled={!newMessage.trim()}
+                    className="w-10 h-10 sm:w-12 sm:h-12 bg-green-500 text-white rounded-full flex items-center justify-center hover:bg-green-600 disabled:opacity-50 disabled:cursor-not-allowed transition-all duration-200"
+                  >
+                    <Send className="w-4 h-4 sm:w-5 sm:h-5" />
+                  </button>
+                </form>
+              )}
             </div>
           </>
         ) : (
@@ -1198,6 +3001,158 @@ function App() {
         </div>
       )}
 
+      {/* Broadcasts Modal */}
+      {showBroadcasts && (
+        <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50">
+          <div className={`${settings.darkMode ? 'bg-gray-800' : 'bg-white'} rounded-lg p-6 max-w-lg w-full mx-4 max-h-[85vh] overflow-y-auto`}>
+            <div className="flex items-center justify-between mb-4">
+              <h2 className={`text-xl font-semibold ${settings.darkMode ? 'text-white' : 'text-gray-900'}`}>Broadcasts</h2>
+              <button
+                onClick={() => setShowBroadcasts(false)}
+                className="text-gray-500 hover:text-gray-700"
+              >
+                ✕
+              </button>
+            </div>
+            <div className="space-y-6">
+              <div>
+                <p className={`text-sm font-medium mb-2 ${settings.darkMode ? 'text-gray-200' : 'text-gray-700'}`}>Broadcast lists</p>
+                <div className="space-y-1 mb-2">
+                  {broadcastLists.map(list => (
+                    <div key={list.id} className={`flex items-center justify-between p-2 rounded-lg ${settings.darkMode ? 'bg-gray-700' : 'bg-gray-50'}`}>
+                      <span className={`text-sm ${settings.darkMode ? 'text-white' : 'text-gray-900'}`}>
+                        {list.name} <span className="text-gray-400">· {list.recipients.length} recipients</span>
+                      </span>
+                      <button onClick={() => handleDeleteBroadcastList(list)} className="text-xs text-red-500 hover:underline">
+                        Delete
+                      </button>
+                    </div>
+                  ))}
+                </div>
+                <div className="flex items-center space-x-2">
+                  <input
+                    type="text"
+                    value={broadcastListName}
+                    onChange={(e) => setBroadcastListName(e.target.value)}
+                    placeholder="New list name"
+                    className={`flex-1 min-w-0 px-3 py-2 border rounded-lg text-sm ${settings.darkMode ? 'bg-gray-700 border-gray-600 text-white placeholder-gray-400' : 'bg-white border-gray-300 text-gray-900 placeholder-gray-500'}`}
+                  />
+                  <label className={`px-3 py-2 text-sm rounded-lg border cursor-pointer truncate max-w-[8rem] ${settings.darkMode ? 'border-gray-600 text-gray-200' : 'border-gray-300 text-gray-700'}`}>
+                    {broadcastListFile ? broadcastListFile.name : 'CSV file'}
+                    <input
+                      type="file"
+                      accept=".csv,text/csv"
+                      className="hidden"
+                      onChange={(e) => setBroadcastListFile(e.target.files?.[0] || null)}
+                    />
+                  </label>
+                  <button
+                    onClick={handleCreateBroadcastList}
+                    disabled={!broadcastListName.trim() || !broadcastListFile}
+                    className="px-3 py-2 text-sm rounded-lg bg-green-500 text-white hover:bg-green-600 disabled:opacity-50"
+                  >
+                    Upload
+                  </button>
+                </div>
+                <p className="text-xs text-gray-400 mt-1">One recipient per row: phone number, then name. A header row is optional.</p>
+              </div>
+
+              <div className="space-y-2">
+                <p className={`text-sm font-medium ${settings.darkMode ? 'text-gray-200' : 'text-gray-700'}`}>New campaign</p>
+                <select
+                  value={campaignDraft.list_id}
+                  onChange={(e) => setCampaignDraft(prev => ({ ...prev, list_id: e.target.value }))}
+                  className={`w-full rounded px-2 py-2 text-sm ${settings.darkMode ? 'bg-gray-700 text-white' : 'bg-gray-100 text-gray-900'}`}
+                >
+                  <option value="">Choose a list…</option>
+                  {broadcastLists.map(list => (
+                    <option key={list.id} value={list.id}>{list.name} ({list.recipients.length})</option>
+                  ))}
+                </select>
+                <input
+                  type="text"
+                  value={campaignDraft.name}
+                  onChange={(e) => setCampaignDraft(prev => ({ ...prev, name: e.target.value }))}
+                  placeholder="Campaign name (defaults to the list's)"
+                  className={`w-full px-3 py-2 border rounded-lg text-sm ${settings.darkMode ? 'bg-gray-700 border-gray-600 text-white placeholder-gray-400' : 'bg-white border-gray-300 text-gray-900 placeholder-gray-500'}`}
+                />
+                <select
+                  value={campaignDraft.template_id}
+                  onChange={(e) => {
+                    setCampaignDraft(prev => ({ ...prev, template_id: e.target.value }));
+                    setCampaignParams({});
+                  }}
+                  className={`w-full rounded px-2 py-2 text-sm ${settings.darkMode ? 'bg-gray-700 text-white' : 'bg-gray-100 text-gray-900'}`}
+                >
+                  <option value="">Text message</option>
+                  {templates.map(template => (
+                    <option key={template._id} value={template._id}>Template: {template.name} ({template.language})</option>
+                  ))}
+                </select>
+                {campaignDraft.template_id ? (
+                  templates.find(t => t._id === campaignDraft.template_id)?.variables.map(variable => (
+                    <input
+                      key={`${variable.component}-${variable.index}`}
+                      type="text"
+                      value={campaignParams[variable.component]?.[variable.index - 1] || ''}
+                      onChange={(e) => setCampaignParams(prev => {
+                        const values = [...(prev[variable.component] || [])];
+                        values[variable.index - 1] = e.target.value;
+                        return { ...prev, [variable.component]: values };
+                      })}
+                      placeholder={variable.example ? `${variable.label} (e.g. ${variable.example})` : variable.label}
+                      className={`w-full px-3 py-2 border rounded-lg text-sm ${settings.darkMode ? 'bg-gray-700 border-gray-600 text-white placeholder-gray-400' : 'bg-white border-gray-300 text-gray-900 placeholder-gray-500'}`}
+                    />
+                  ))
+                ) : (
+                  <textarea
+                    value={campaignDraft.body}
+                    onChange={(e) => setCampaignDraft(prev => ({ ...prev, body: e.target.value }))}
+                    placeholder="Message"
+                    rows={3}
+                    className={`w-full px-3 py-2 border rounded-lg text-sm ${settings.darkMode ? 'bg-gray-700 border-gray-600 text-white placeholder-gray-400' : 'bg-white border-gray-300 text-gray-900 placeholder-gray-500'}`}
+                  />
+                )}
+                <button
+                  onClick={handleSendCampaign}
+                  disabled={!campaignDraft.list_id || (!campaignDraft.template_id && !campaignDraft.body.trim())}
+                  className="w-full bg-green-500 text-white py-2 px-4 rounded-lg hover:bg-green-600 transition-colors disabled:opacity-50"
+                >
+                  Send to list
+                </button>
+              </div>
+
+              {campaigns.length > 0 && (
+                <div>
+                  <p className={`text-sm font-medium mb-2 ${settings.darkMode ? 'text-gray-200' : 'text-gray-700'}`}>Campaigns</p>
+                  <div className="space-y-2">
+                    {campaigns.map(campaign => {
+                      const { total, skipped, pending, sent, delivered, read, failed } = campaign.stats;
+                      return (
+                        <div key={campaign.id} className={`p-3 rounded-lg ${settings.darkMode ? 'bg-gray-700' : 'bg-gray-50'}`}>
+                          <div className="flex items-center justify-between">
+                            <span className={`text-sm font-medium ${settings.darkMode ? 'text-white' : 'text-gray-900'}`}>{campaign.name}</span>
+                            <span className="text-xs text-gray-400">{format(new Date(campaign.created_at), 'dd/MM/yyyy HH:mm')}</span>
+                          </div>
+                          <div className="mt-2 h-1.5 rounded-full bg-gray-200 overflow-hidden flex">
+                            <div className="bg-blue-500" style={{ width: `${(read / total) * 100}%` }} />
+                            <div className="bg-green-500" style={{ width: `${((sent - read) / total) * 100}%` }} />
+                            <div className="bg-red-500" style={{ width: `${(failed / total) * 100}%` }} />
+                          </div>
+                          <p className={`mt-1 text-xs ${settings.darkMode ? 'text-gray-300' : 'text-gray-600'}`}>
+                            {total} recipients · {sent} sent · {delivered} delivered · {read} read · {failed} failed{pending > 0 ? ` · ${pending} queued` : ''}{skipped > 0 ? ` · ${skipped} blocked` : ''}
+                          </p>
+                        </div>
+                      );
+                    })}
+                  </div>
+                </div>
+              )}
+            </div>
+          </div>
+        </div>
+      )}
+
       {/* New Group Modal */}
       {showNewGroup && (
         <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50">
@@ -1233,7 +3188,7 @@ function App() {
                   Select Contacts ({selectedContactsForGroup.length} selected)
                 </label>
                 <div className="space-y-2 max-h-48 overflow-y-auto">
-                  {contacts.map((contact) => (
+                  {contacts.filter(contact => !isGroupId(contact.wa_id)).map((contact) => (
                     <div
                       key={contact.wa_id}
                       onClick={() => handleToggleContactForGroup(contact.wa_id)}
@@ -1266,6 +3221,155 @@ function App() {
         </div>
       )}
 
+      {/* Group Info Modal */}
+      {showStarred && (
+        <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50">
+          <div className={`${settings.darkMode ? 'bg-gray-800' : 'bg-white'} rounded-lg p-6 max-w-md w-full mx-4 max-h-[80vh] overflow-y-auto`}>
+            <div className="flex items-center justify-between mb-4">
+              <h2 className={`text-xl font-semibold ${settings.darkMode ? 'text-white' : 'text-gray-900'}`}>Starred messages</h2>
+              <button
+                onClick={() => setShowStarred(false)}
+                className="text-gray-500 hover:text-gray-700"
+              >
+                ✕
+              </button>
+            </div>
+            {starredMessages.length === 0 ? (
+              <p className={`text-sm ${settings.darkMode ? 'text-gray-400' : 'text-gray-500'}`}>
+                Right-click a message and choose Star to find it here later.
+              </p>
+            ) : (
+              <div className="space-y-1">
+                {starredMessages.map(starred => (
+                  <button
+                    key={starred.message._id}
+                    onClick={() => handleOpenStarredMessage(starred)}
+                    className={`w-full text-left p-3 rounded-lg transition-colors ${settings.darkMode ? 'hover:bg-gray-700' : 'hover:bg-gray-50'}`}
+                  >
+                    <div className="flex items-center justify-between">
+                      <span className={`text-sm font-semibold truncate ${settings.darkMode ? 'text-white' : 'text-gray-900'}`}>
+                        {isOwnMessage(starred.message) ? `You → ${starred.profile_name}` : starred.profile_name}
+                      </span>
+                      <span className={`text-xs ml-2 ${settings.darkMode ? 'text-gray-400' : 'text-gray-500'}`}>
+                        {format(new Date(starred.message.timestamp), 'dd/MM/yyyy HH:mm')}
+                      </span>
+                    </div>
+                    <p className={`text-sm truncate ${settings.darkMode ? 'text-gray-300' : 'text-gray-600'}`}>
+                      {getMessagePreview(starred.message)}
+                    </p>
+                  </button>
+                ))}
+              </div>
+            )}
+          </div>
+        </div>
+      )}
+
+      {showGroupInfo && selectedGroup && (
+        <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50">
+          <div className={`${settings.darkMode ? 'bg-gray-800' : 'bg-white'} rounded-lg p-6 max-w-md w-full mx-4 max-h-[80vh] overflow-y-auto`}>
+            <div className="flex items-center justify-between mb-4">
+              <h2 className={`text-xl font-semibold ${settings.darkMode ? 'text-white' : 'text-gray-900'}`}>Group info</h2>
+              <button
+                onClick={() => setShowGroupInfo(false)}
+                className="text-gray-500 hover:text-gray-700"
+              >
+                ✕
+              </button>
+            </div>
+            <div className="space-y-4">
+              {canManageGroup(selectedGroup) ? (
+                <div className="flex space-x-2">
+                  <input
+                    type="text"
+                    value={groupNameDraft}
+                    onChange={(e) => setGroupNameDraft(e.target.value)}
+                    className={`flex-1 px-3 py-2 border rounded-lg focus:outline-none focus:ring-2 focus:ring-green-500 ${settings.darkMode ? 'bg-gray-700 border-gray-600 text-white' : 'bg-white border-gray-300 text-gray-900'}`}
+                  />
+                  <button
+                    onClick={handleRenameGroup}
+                    disabled={!groupNameDraft.trim() || groupNameDraft.trim() === selectedGroup.name}
+                    className="px-3 py-2 rounded-lg bg-green-500 text-white hover:bg-green-600 disabled:opacity-50"
+                  >
+                    Rename
+                  </button>
+                </div>
+              ) : (
+                <p className={`text-lg ${settings.darkMode ? 'text-white' : 'text-gray-900'}`}>{selectedGroup.name}</p>
+              )}
+
+              <div>
+                <p className={`text-sm font-medium mb-2 ${settings.darkMode ? 'text-gray-200' : 'text-gray-700'}`}>
+                  Members ({selectedGroup.members.length})
+                </p>
+                <div className="space-y-1">
+                  {selectedGroup.members.map(member => (
+                    <div key={member.wa_id} className={`flex items-center justify-between p-2 rounded-lg ${settings.darkMode ? 'bg-gray-700' : 'bg-gray-50'}`}>
+                      <span className={`text-sm ${settings.darkMode ? 'text-white' : 'text-gray-900'}`}>
+                        {member.profile_name} <span className="text-gray-400">+{member.wa_id}</span>
+                      </span>
+                      {canManageGroup(selectedGroup) && selectedGroup.members.length > 1 && (
+                        <button onClick={() => handleRemoveGroupMember(member.wa_id)} className="text-xs text-red-500 hover:underline">
+                          Remove
+                        </button>
+                      )}
+                    </div>
+                  ))}
+                </div>
+                {canManageGroup(selectedGroup) && (
+                  <select
+                    value=""
+                    onChange={(e) => e.target.value && handleAddGroupMember(e.target.value)}
+                    className={`mt-2 w-full rounded px-2 py-1 text-sm ${settings.darkMode ? 'bg-gray-700 text-white' : 'bg-gray-100 text-gray-900'}`}
+                  >
+                    <option value="">Add member…</option>
+                    {contacts
+                      .filter(contact => !isGroupId(contact.wa_id) && !selectedGroup.members.some(member => member.wa_id === contact.wa_id))
+                      .map(contact => (
+                        <option key={contact.wa_id} value={contact.wa_id}>{contact.profile_name}</option>
+                      ))}
+                  </select>
+                )}
+              </div>
+
+              <div>
+                <p className={`text-sm font-medium mb-2 ${settings.darkMode ? 'text-gray-200' : 'text-gray-700'}`}>
+                  Admins
+                </p>
+                <div className="space-y-1">
+                  {selectedGroup.admins.map(admin => (
+                    <div key={admin.id} className={`flex items-center justify-between p-2 rounded-lg ${settings.darkMode ? 'bg-gray-700' : 'bg-gray-50'}`}>
+                      <span className={`text-sm ${settings.darkMode ? 'text-white' : 'text-gray-900'}`}>
+                        {admin.id === session.agent.id ? `${admin.name} (you)` : admin.name}
+                      </span>
+                      {canManageGroup(selectedGroup) && selectedGroup.admins.length > 1 && (
+                        <button onClick={() => handleRemoveGroupAdmin(admin.id)} className="text-xs text-red-500 hover:underline">
+                          Remove
+                        </button>
+                      )}
+                    </div>
+                  ))}
+                </div>
+                {canManageGroup(selectedGroup) && (
+                  <select
+                    value=""
+                    onChange={(e) => e.target.value && handleAddGroupAdmin(e.target.value)}
+                    className={`mt-2 w-full rounded px-2 py-1 text-sm ${settings.darkMode ? 'bg-gray-700 text-white' : 'bg-gray-100 text-gray-900'}`}
+                  >
+                    <option value="">Make admin…</option>
+                    {agents
+                      .filter(agent => !selectedGroup.admins.some(admin => admin.id === agent.id))
+                      .map(agent => (
+                        <option key={agent.id} value={agent.id}>{agent.name}</option>
+                      ))}
+                  </select>
+                )}
+              </div>
+            </div>
+          </div>
+        </div>
+      )}
+
       {/* Privacy Modal */}
       {showPrivacy && (
         <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50">
@@ -1313,6 +3417,36 @@ function App() {
                   <div className="w-4 h-4 bg-white rounded-full absolute right-1 top-1"></div>
                 </div>
               </div>
+              <div className="p-3">
+                <div className="flex items-center justify-between mb-2">
+                  <span className={settings.darkMode ? 'text-white' : 'text-gray-900'}>Blocked contacts</span>
+                  <span className="text-gray-400">{blockedContacts.length}</span>
+                </div>
+                {blockedContacts.length === 0 ? (
+                  <p className={`text-sm ${settings.darkMode ? 'text-gray-400' : 'text-gray-500'}`}>
+                    Block a contact from the chat menu to stop their messages reaching the inbox.
+                  </p>
+                ) : (
+                  <div className="space-y-1 max-h-48 overflow-y-auto">
+                    {blockedContacts.map(blocked => (
+                      <div key={blocked.wa_id} className="flex items-center justify-between py-1">
+                        <div className="min-w-0">
+                          <p className={`text-sm truncate ${settings.darkMode ? 'text-white' : 'text-gray-900'}`}>{blocked.profile_name}</p>
+                          <p className={`text-xs ${settings.darkMode ? 'text-gray-400' : 'text-gray-500'}`}>
+                            +{blocked.wa_id} · blocked by {blocked.blocked_by.name}
+                          </p>
+                        </div>
+                        <button
+                          onClick={() => handleUnblockContact(blocked.wa_id)}
+                          className="text-sm text-green-600 hover:underline ml-2"
+                        >
+                          Unblock
+                        </button>
+                      </div>
+                    ))}
+                  </div>
+                )}
+              </div>
             </div>
           </div>
         </div>
@@ -1417,8 +3551,107 @@ function App() {
           </div>
         </div>
       )}
+
+      {/* Message Info Modal */}
+      {messageInfo && (
+        <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50">
+          <div className={`${settings.darkMode ? 'bg-gray-800' : 'bg-white'} rounded-lg p-6 max-w-md w-full mx-4`}>
+            <div className="flex items-center justify-between mb-4">
+              <h2 className={`text-xl font-semibold ${settings.darkMode ? 'text-white' : 'text-gray-900'}`}>Message info</h2>
+              <button
+                onClick={() => setMessageInfoId(null)}
+                className="text-gray-500 hover:text-gray-700"
+              >
+                ✕
+              </button>
+            </div>
+            <div className="space-y-4">
+              <div className="flex justify-end">
+                <div className="max-w-[85%]">
+                  {renderMessageContent(messageInfo)}
+                </div>
+              </div>
+              {messageInfo.agent && (
+                <p className={`text-sm ${settings.darkMode ? 'text-gray-300' : 'text-gray-600'}`}>Sent by {messageInfo.agent.name}</p>
+              )}
+              {(['read', 'delivered', 'sent'] as const).map(status => {
+                const statusTime = messageInfo.status_timestamps?.[status];
+                return (
+                  <div key={status} className={`flex items-center justify-between p-3 rounded-lg ${settings.darkMode ? 'bg-gray-700' : 'bg-gray-50'}`}>
+                    <div className="flex items-center space-x-2">
+                      {getStatusIcon(status)}
+                      <span className={`capitalize ${settings.darkMode ? 'text-white' : 'text-gray-900'}`}>{status}</span>
+                    </div>
+                    <span className={`text-sm ${settings.darkMode ? 'text-gray-400' : 'text-gray-500'}`}>
+                      {statusTime ? format(new Date(statusTime), 'dd/MM/yyyy HH:mm') : '—'}
+                    </span>
+                  </div>
+                );
+              })}
+              {messageInfo.deliveries && (
+                <div>
+                  <p className={`text-sm font-medium mb-2 ${settings.darkMode ? 'text-gray-200' : 'text-gray-700'}`}>
+                    Members ({messageInfo.deliveries.filter(delivery => delivery.status === 'read').length} of {messageInfo.deliveries.length} read)
+                  </p>
+                  <div className="space-y-1 max-h-48 overflow-y-auto">
+                    {messageInfo.deliveries.map(delivery => (
+                      <div key={delivery.wa_id} className={`flex items-center justify-between p-2 rounded-lg ${settings.darkMode ? 'bg-gray-700' : 'bg-gray-50'}`}>
+                        <span className={`text-sm ${settings.darkMode ? 'text-white' : 'text-gray-900'}`}>{delivery.profile_name}</span>
+                        <span className={`flex items-center space-x-1 text-xs capitalize ${settings.darkMode ? 'text-gray-400' : 'text-gray-500'}`}>
+                          {getStatusIcon(delivery.status ?? undefined, delivery.errors?.[0]?.message)}
+                          <span>{delivery.skipped ? 'skipped (blocked)' : delivery.status || 'stored only'}</span>
+                        </span>
+                      </div>
+                    ))}
+                  </div>
+                </div>
+              )}
+              {messageInfo.status === 'failed' && (
+                <div className={`flex items-start space-x-2 p-3 rounded-lg ${settings.darkMode ? 'bg-red-900 text-red-100' : 'bg-red-50 text-red-700'}`}>
+                  <AlertCircle className="w-5 h-5 flex-shrink-0" />
+                  <div>
+                    <p className="font-medium">Failed{messageInfo.status_timestamps?.failed ? ` at ${format(new Date(messageInfo.status_timestamps.failed), 'dd/MM/yyyy HH:mm')}` : ''}</p>
+                    <p className="text-sm">{getFailureReason(messageInfo)}</p>
+                  </div>
+                </div>
+              )}
+            </div>
+          </div>
+        </div>
+      )}
     </div>
   );
 }
 
+function App() {
+  const [session, setSession] = useState<Session | null>(loadSession);
+
+  const handleLogin = (newSession: Session) => {
+    saveSession(newSession);
+    setSession(newSession);
+  };
+
+  const handleLogout = useCallback(() => {
+    clearSession();
+    setSession(null);
+  }, []);
+
+  // A request rejected for a missing or expired token signs the agent out
+  useEffect(() => {
+    const interceptor = axios.interceptors.response.use(undefined, error => {
+      if (axios.isAxiosError(error) && error.response?.status === 401 && !error.config?.url?.endsWith('/api/auth/login')) {
+        handleLogout();
+      }
+      return Promise.reject(error);
+    });
+    return () => axios.interceptors.response.eject(interceptor);
+  }, [handleLogout]);
+
+  if (!session) {
+    return <Login onLogin={handleLogin} />;
+  }
+
+  return <ChatApp key={session.agent.id} session={session} onLogout={handleLogout} />;
+}
+
 export default App;
\ No newline at end of file
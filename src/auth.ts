@@ -0,0 +1,49 @@
+import axios from 'axios';
+
+// The signed-in agent's session, kept in localStorage so a reload doesn't
+// sign the agent out. The token goes on every API request and in the
+// Socket.IO handshake.
+
+export interface Agent {
+  id: string;
+  email: string;
+  name: string;
+  role: string;
+}
+
+export interface Session {
+  token: string;
+  agent: Agent;
+}
+
+const STORAGE_KEY = 'whatsapp-agent-session';
+
+// Set before any request of the session goes out
+const authorizeRequests = (token: string | null) => {
+  if (token) {
+    axios.defaults.headers.common.Authorization = `Bearer ${token}`;
+  } else {
+    delete axios.defaults.headers.common.Authorization;
+  }
+};
+
+export const loadSession = (): Session | null => {
+  try {
+    const stored = localStorage.getItem(STORAGE_KEY);
+    const session: Session | null = stored ? JSON.parse(stored) : null;
+    authorizeRequests(session?.token ?? null);
+    return session;
+  } catch {
+    return null;
+  }
+};
+
+export const saveSession = (session: Session) => {
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(session));
+  authorizeRequests(session.token);
+};
+
+export const clearSession = () => {
+  localStorage.removeItem(STORAGE_KEY);
+  authorizeRequests(null);
+};
@@ -0,0 +1,70 @@
+// Messages the agent has sent that the server hasn't stored yet, kept in
+// IndexedDB so they survive a reload or a lost connection. Each one is keyed
+// by the client id the server echoes back on the stored message.
+
+const DB_NAME = 'whatsapp-outbox';
+const STORE_NAME = 'messages';
+
+export type OutboxState = 'pending' | 'failed';
+
+export interface OutboxEntry<TMessage = unknown> {
+  client_id: string;
+  agent_id: string;
+  phone_number_id: string | null;
+  wa_id: string;
+  // The POST /api/messages body, client_id included
+  request: Record<string, unknown>;
+  // The optimistic bubble shown until the server answers
+  message: TMessage;
+  state: OutboxState;
+  error?: string;
+  created_at: number;
+}
+
+export const createClientId = () =>
+  `client_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
+
+let database: Promise<IDBDatabase> | null = null;
+
+const openDatabase = () => {
+  if (!database) {
+    database = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, 1);
+      request.onupgradeneeded = () => {
+        request.result.createObjectStore(STORE_NAME, { keyPath: 'client_id' });
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    });
+    // A failed open (private mode, blocked storage) is retried next time
+    database.catch(() => {
+      database = null;
+    });
+  }
+  return database;
+};
+
+const run = async <T>(mode: IDBTransactionMode, operation: (store: IDBObjectStore) => IDBRequest<T>) => {
+  const db = await openDatabase();
+  return new Promise<T>((resolve, reject) => {
+    const request = operation(db.transaction(STORE_NAME, mode).objectStore(STORE_NAME));
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+};
+
+export const saveOutboxEntry = async (entry: OutboxEntry) => {
+  await run('readwrite', store => store.put(entry));
+};
+
+export const removeOutboxEntry = async (clientId: string) => {
+  await run('readwrite', store => store.delete(clientId));
+};
+
+// The agent's unsent messages, oldest first
+export const listOutboxEntries = async <TMessage>(agentId: string) => {
+  const entries = await run('readonly', store => store.getAll()) as OutboxEntry<TMessage>[];
+  return entries
+    .filter(entry => entry.agent_id === agentId)
+    .sort((a, b) => a.created_at - b.created_at);
+};
@@ -0,0 +1,51 @@
+// Generates small JPEG thumbnails in the browser before upload, so the server
+// needs no image or video tooling to show previews.
+
+const THUMBNAIL_SIZE = 320;
+
+const drawThumbnail = (source: CanvasImageSource, width: number, height: number): Promise<Blob | null> => {
+  const scale = Math.min(1, THUMBNAIL_SIZE / Math.max(width, height));
+  const canvas = document.createElement('canvas');
+  canvas.width = Math.max(1, Math.round(width * scale));
+  canvas.height = Math.max(1, Math.round(height * scale));
+  canvas.getContext('2d')?.drawImage(source, 0, 0, canvas.width, canvas.height);
+
+  return new Promise(resolve => canvas.toBlob(resolve, 'image/jpeg', 0.7));
+};
+
+const imageThumbnail = (objectUrl: string): Promise<Blob | null> =>
+  new Promise(resolve => {
+    const image = new Image();
+    image.onload = () => resolve(drawThumbnail(image, image.naturalWidth, image.naturalHeight));
+    image.onerror = () => resolve(null);
+    image.src = objectUrl;
+  });
+
+// Grabs a frame shortly after the start, past any black lead-in
+const videoThumbnail = (objectUrl: string): Promise<Blob | null> =>
+  new Promise(resolve => {
+    const video = document.createElement('video');
+    video.muted = true;
+    video.preload = 'metadata';
+    video.onloadedmetadata = () => {
+      video.currentTime = Math.min(1, video.duration / 2);
+    };
+    video.onseeked = () => resolve(drawThumbnail(video, video.videoWidth, video.videoHeight));
+    video.onerror = () => resolve(null);
+    video.src = objectUrl;
+  });
+
+export const createThumbnail = async (file: File): Promise<Blob | null> => {
+  if (!file.type.startsWith('image/') && !file.type.startsWith('video/')) {
+    return null;
+  }
+
+  const objectUrl = URL.createObjectURL(file);
+  try {
+    return file.type.startsWith('image/')
+      ? await imageThumbnail(objectUrl)
+      : await videoThumbnail(objectUrl);
+  } finally {
+    URL.revokeObjectURL(objectUrl);
+  }
+};